@@ -0,0 +1,269 @@
+import { CludzError } from "./errors";
+import { writeStream } from "./stream";
+
+/**
+ * Raster image formats recognized from their leading bytes.
+ */
+export type RasterFormat = "png" | "jpeg" | "gif" | "webp" | "avif";
+
+/**
+ * File formats recognized from their leading bytes.
+ */
+export type BinaryFormat = RasterFormat | "svg" | "pdf";
+
+/**
+ * Format and dimensions of an image, read from its header.
+ */
+export interface ImageInfo {
+    /** The detected image format. */
+    format: RasterFormat;
+    /** The MIME type of the format. */
+    mimeType: string;
+    /** Width in pixels, if the header could be parsed. */
+    width?: number;
+    /** Height in pixels, if the header could be parsed. */
+    height?: number;
+}
+
+/**
+ * MIME type of each recognized format.
+ * @internal
+ */
+export const MIME_TYPES: Readonly<Record<BinaryFormat, string>> = {
+    png: "image/png",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    avif: "image/avif",
+    svg: "image/svg+xml",
+    pdf: "application/pdf",
+};
+
+/**
+ * Detects a file format from its leading bytes.
+ * @param bytes The start of the file. 64 bytes are enough for every format except SVG,
+ * which is recognized within the first 512 bytes.
+ * @returns The detected format, or undefined if it is not recognized.
+ * @internal
+ */
+export function sniffFormat(bytes: Uint8Array): BinaryFormat | undefined {
+    const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+    if (bytes[0] === 0x89 && ascii(1, 4) === "PNG") return "png";
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg";
+    if (ascii(0, 4) === "GIF8") return "gif";
+    if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "webp";
+    if (ascii(4, 8) === "ftyp" && isAvif(bytes)) return "avif";
+    if (ascii(0, 5) === "%PDF-") return "pdf";
+
+    const text = new TextDecoder().decode(bytes.subarray(0, 512)).trimStart();
+    if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(text)) return "svg";
+
+    return undefined;
+}
+
+/**
+ * Checks the brands of an ISO media "ftyp" box for AVIF. Files whose major brand is the generic
+ * HEIF "mif1" or "msf1" list "avif" or "avis" among their compatible brands.
+ * @param bytes The start of the file, beginning with the "ftyp" box.
+ * @returns True if the major brand or a compatible brand is "avif" or "avis".
+ * @private
+ */
+function isAvif(bytes: Uint8Array): boolean {
+    const brand = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const isAvifBrand = (offset: number) => brand(offset) === "avif" || brand(offset) === "avis";
+
+    if (bytes.length < 12) return false;
+    if (isAvifBrand(8)) return true;
+
+    // The compatible brands follow the minor version, up to the end of the box.
+    const size = new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0);
+    for (let offset = 16; offset + 4 <= Math.min(size, bytes.length); offset += 4) {
+        if (isAvifBrand(offset)) return true;
+    }
+    return false;
+}
+
+/**
+ * Reads the format and dimensions of a raster image from its header.
+ * JPEG dimensions may require up to the first 64 KiB when the file starts with large metadata.
+ * @param bytes The start of the file.
+ * @returns The image information, or undefined if the bytes are not a supported raster image.
+ * @internal
+ */
+export function sniffImage(bytes: Uint8Array): ImageInfo | undefined {
+    const format = sniffFormat(bytes);
+    if (!format || format === "svg" || format === "pdf") return undefined;
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const size = imageSize(format, bytes, view);
+    return { format, mimeType: MIME_TYPES[format], ...size };
+}
+
+/**
+ * Parses the dimensions from an image header.
+ * @param format The image format.
+ * @param bytes The start of the file.
+ * @param view A DataView over the same bytes.
+ * @returns The dimensions, or an empty object if they are not within the given bytes.
+ * @private
+ */
+function imageSize(format: RasterFormat, bytes: Uint8Array, view: DataView): { width?: number; height?: number } {
+    const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+    try {
+        switch (format) {
+            case "png":
+                return { width: view.getUint32(16), height: view.getUint32(20) };
+            case "gif":
+                return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+            case "webp": {
+                const chunk = ascii(12, 16);
+                if (chunk === "VP8 ") {
+                    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+                }
+                if (chunk === "VP8L") {
+                    const bits = view.getUint32(21, true);
+                    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+                }
+                if (chunk === "VP8X") {
+                    const width = (view.getUint32(24, true) & 0xffffff) + 1;
+                    const height = (view.getUint32(26, true) >>> 8) + 1;
+                    return { width, height };
+                }
+                return {};
+            }
+            case "avif": {
+                // The "ispe" property box holds the image's spatial extent.
+                for (let i = 12; i + 16 <= bytes.length; i++) {
+                    if (bytes[i] === 0x69 && ascii(i, i + 4) === "ispe") {
+                        return { width: view.getUint32(i + 8), height: view.getUint32(i + 12) };
+                    }
+                }
+                return {};
+            }
+            case "jpeg": {
+                let offset = 2;
+                while (offset + 9 <= bytes.length) {
+                    if (bytes[offset] !== 0xff) return {};
+                    const marker = bytes[offset + 1] as number;
+                    // SOF0-SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) are not frames.
+                    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+                        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+                    }
+                    offset += 2 + view.getUint16(offset + 2);
+                }
+                return {};
+            }
+        }
+    } catch {
+        // Truncated header: the dimensions are not within the given bytes.
+        return {};
+    }
+}
+
+/**
+ * Binary content returned by the API, such as a generated image or document.
+ * The body is read once and kept in memory, so it can be consumed any number of times.
+ */
+export class BinaryResult {
+    /** The content type, taken from the detected format when the server reports a generic one. */
+    public readonly contentType: string;
+    /** The format detected from the content itself, if recognized. */
+    public readonly format?: BinaryFormat;
+
+    /** @internal */
+    constructor(protected readonly blob: Blob, contentType: string | null, head: Uint8Array) {
+        this.format = sniffFormat(head);
+
+        const reported = contentType?.split(";")[0]?.trim();
+        const generic = !reported || reported === "application/octet-stream";
+        this.contentType = generic && this.format ? MIME_TYPES[this.format] : reported || "application/octet-stream";
+    }
+
+    /**
+     * Reads a response into a result.
+     * @param response The response to consume, as returned by `Cludz._request`.
+     * @returns A promise that resolves to the result.
+     * @throws CludzError if the API returned JSON instead of binary content.
+     * @internal
+     */
+    static async from<T extends BinaryResult>(
+        this: new (blob: Blob, contentType: string | null, head: Uint8Array) => T,
+        response: unknown
+    ): Promise<T> {
+        if (!(response instanceof Response)) {
+            throw new CludzError("Expected binary content, but the API returned JSON");
+        }
+
+        const blob = await response.blob();
+        const head = new Uint8Array(await blob.slice(0, 65536).arrayBuffer());
+        return new this(blob, response.headers.get("content-type"), head);
+    }
+
+    /** Size of the content in bytes. */
+    get size(): number {
+        return this.blob.size;
+    }
+
+    /**
+     * Returns the content as a Blob typed with the result's content type.
+     * @returns The content as a Blob.
+     */
+    toBlob(): Blob {
+        return this.blob.type === this.contentType ? this.blob : new Blob([this.blob], { type: this.contentType });
+    }
+
+    /**
+     * Returns the content as a Buffer.
+     * @returns A promise that resolves to the content.
+     */
+    async toBuffer(): Promise<Buffer> {
+        return Buffer.from(await this.blob.arrayBuffer());
+    }
+
+    /**
+     * Returns the content as a base64 data URL, e.g., for an `<img>` source.
+     * @returns A promise that resolves to the data URL.
+     */
+    async toDataURL(): Promise<string> {
+        return `data:${this.contentType};base64,${(await this.toBuffer()).toString("base64")}`;
+    }
+
+    /**
+     * Returns a new readable stream over the content.
+     * @returns The content stream.
+     */
+    stream(): ReadableStream<Uint8Array> {
+        return this.blob.stream();
+    }
+
+    /**
+     * Writes the content to a local file. Missing parent directories are created,
+     * and the file is only replaced once fully written.
+     * @param path The file path.
+     * @returns A promise that resolves when the file is written.
+     * @throws CludzError if writing fails.
+     */
+    async saveTo(path: string): Promise<void> {
+        await writeStream(this.stream(), path);
+    }
+}
+
+/**
+ * An image returned by the API.
+ */
+export class ImageResult extends BinaryResult {
+    /** Width in pixels, if it could be read from the image header. */
+    public readonly width?: number;
+    /** Height in pixels, if it could be read from the image header. */
+    public readonly height?: number;
+
+    /** @internal */
+    constructor(blob: Blob, contentType: string | null, head: Uint8Array) {
+        super(blob, contentType, head);
+        const info = sniffImage(head);
+        this.width = info?.width;
+        this.height = info?.height;
+    }
+}
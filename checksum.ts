@@ -0,0 +1,144 @@
+import { ChecksumMismatchError } from "./errors";
+
+/**
+ * Hash algorithms recognized in storage checksums.
+ */
+export type ChecksumAlgorithm = "md5" | "sha1" | "sha256" | "sha512";
+
+/** Hex digest length of each algorithm, used when a checksum has no algorithm prefix. */
+const DIGEST_LENGTHS: Readonly<Record<number, ChecksumAlgorithm>> = {
+    32: "md5",
+    40: "sha1",
+    64: "sha256",
+    128: "sha512",
+};
+
+/**
+ * Parses a checksum reported by the storage API. Accepts a bare hex digest, whose algorithm is
+ * inferred from its length, or a prefixed one such as "sha256:..." or "sha256-...".
+ * @param checksum The checksum from `FileInfo.checksum`.
+ * @returns The algorithm and lowercase hex digest, or undefined if the checksum is not recognized.
+ * @internal
+ */
+export function parseChecksum(checksum: string | undefined): { algorithm: ChecksumAlgorithm; digest: string } | undefined {
+    const match = /^(?:(md5|sha-?1|sha-?256|sha-?512)[:-])?([0-9a-f]+)$/i.exec(checksum?.trim() ?? "");
+    if (!match) return undefined;
+
+    const digest = (match[2] as string).toLowerCase();
+    const algorithm = match[1]
+        ? match[1].toLowerCase().replace("-", "") as ChecksumAlgorithm
+        : DIGEST_LENGTHS[digest.length];
+
+    return algorithm && digest.length * 4 === digestBits(algorithm) ? { algorithm, digest } : undefined;
+}
+
+/**
+ * Hashes a stream without buffering it.
+ * @param stream The content to hash.
+ * @param algorithm The hash algorithm.
+ * @returns A promise that resolves to the lowercase hex digest.
+ * @internal
+ */
+export async function hashStream(stream: ReadableStream<Uint8Array>, algorithm: ChecksumAlgorithm): Promise<string> {
+    const { createHash } = await import("node:crypto");
+    const hash = createHash(algorithm);
+
+    const reader = stream.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        hash.update(chunk.value);
+    }
+
+    return hash.digest("hex");
+}
+
+/**
+ * Creates a pass-through stream that hashes the bytes flowing through it.
+ * @param algorithm The hash algorithm.
+ * @returns A promise that resolves to the transform stream. Its `digest` is set once the stream ends.
+ * @internal
+ */
+export async function hashingStream(
+    algorithm: ChecksumAlgorithm
+): Promise<TransformStream<Uint8Array, Uint8Array> & { readonly digest: string | undefined }> {
+    const { createHash } = await import("node:crypto");
+    const hash = createHash(algorithm);
+    let digest: string | undefined;
+
+    const stream = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            hash.update(chunk);
+            controller.enqueue(chunk);
+        },
+        flush() {
+            digest = hash.digest("hex");
+        },
+    });
+
+    return Object.defineProperty(stream, "digest", { get: () => digest }) as TransformStream<Uint8Array, Uint8Array> & { readonly digest: string | undefined };
+}
+
+/**
+ * Checks content against the size and checksum stored for it. The checksum is only compared
+ * when it is recognized and was computed with the same algorithm as `actual.digest`.
+ * @param path The storage path, for the error message.
+ * @param expected The stored size and checksum.
+ * @param actual The size of the content, and its digest if one was computed.
+ * @returns True if the checksum was compared, false if only the size was.
+ * @throws ChecksumMismatchError if the size or checksum differs.
+ * @internal
+ */
+export function checkIntegrity(
+    path: string,
+    expected: { size: number; checksum?: string },
+    actual: { size: number; algorithm?: ChecksumAlgorithm; digest?: string }
+): boolean {
+    if (expected.size !== actual.size) {
+        throw new ChecksumMismatchError(path, `${expected.size} bytes`, `${actual.size} bytes`);
+    }
+
+    const checksum = parseChecksum(expected.checksum);
+    if (!checksum || actual.digest === undefined || checksum.algorithm !== actual.algorithm) return false;
+
+    if (checksum.digest !== actual.digest) {
+        throw new ChecksumMismatchError(path, checksum.digest, actual.digest);
+    }
+    return true;
+}
+
+/**
+ * Creates a pass-through stream that checks downloaded content against its stored size and checksum.
+ * @param path The storage path, for the error message.
+ * @param expected The stored size and checksum.
+ * @returns A promise that resolves to the transform stream, which errors with a `ChecksumMismatchError` at the end on mismatch.
+ * @internal
+ */
+export async function integrityStream(
+    path: string,
+    expected: { size: number; checksum?: string }
+): Promise<TransformStream<Uint8Array, Uint8Array>> {
+    const checksum = parseChecksum(expected.checksum);
+    const { createHash } = await import("node:crypto");
+    const hash = checksum ? createHash(checksum.algorithm) : undefined;
+    let size = 0;
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            size += chunk.byteLength;
+            hash?.update(chunk);
+            controller.enqueue(chunk);
+        },
+        flush() {
+            checkIntegrity(path, expected, { size, algorithm: checksum?.algorithm, digest: hash?.digest("hex") });
+        },
+    });
+}
+
+/**
+ * Returns the digest size of an algorithm in bits.
+ * @param algorithm The hash algorithm.
+ * @returns The digest size.
+ * @private
+ */
+function digestBits(algorithm: ChecksumAlgorithm): number {
+    return { md5: 128, sha1: 160, sha256: 256, sha512: 512 }[algorithm];
+}
@@ -0,0 +1,291 @@
+import type { ApiResponse, RateLimitInfo, TaskState } from "./types";
+
+/**
+ * Context attached to errors raised by the SDK.
+ */
+export interface CludzErrorOptions {
+    /** HTTP status code of the failed response, if any. */
+    status?: number;
+    /** The endpoint or path that was requested. */
+    endpoint?: string;
+    /** The HTTP method that was used. */
+    method?: string;
+    /** The parsed API response body, if the server returned one. */
+    response?: ApiResponse;
+    /** Rate limit details parsed from the response headers. */
+    rateLimit?: RateLimitInfo;
+    /** Suggested wait time in milliseconds before retrying, from `Retry-After`. */
+    retryAfter?: number;
+    /** The underlying error that caused this one. */
+    cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the SDK.
+ * A single `instanceof CludzError` check covers the Cludz client, its modules and Storage.
+ */
+export class CludzError extends Error {
+    /** HTTP status code of the failed response, if any. */
+    public readonly status?: number;
+    /** The endpoint or path that was requested. */
+    public readonly endpoint?: string;
+    /** The HTTP method that was used. */
+    public readonly method?: string;
+    /** The parsed API response body, if the server returned one. */
+    public readonly response?: ApiResponse;
+    /** Rate limit details parsed from the response headers. */
+    public readonly rateLimit?: RateLimitInfo;
+    /** Suggested wait time in milliseconds before retrying, from `Retry-After`. */
+    public readonly retryAfter?: number;
+
+    constructor(message: string, options: CludzErrorOptions = {}) {
+        super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+        this.name = "CludzError";
+        this.status = options.status;
+        this.endpoint = options.endpoint;
+        this.method = options.method;
+        this.response = options.response;
+        this.rateLimit = options.rateLimit;
+        this.retryAfter = options.retryAfter;
+    }
+}
+
+/**
+ * Thrown when the API key or storage token is missing, invalid or lacks permission (401/403).
+ */
+export class AuthenticationError extends CludzError {
+    constructor(message: string, options: CludzErrorOptions = {}) {
+        super(message, options);
+        this.name = "AuthenticationError";
+    }
+}
+
+/**
+ * Thrown when the rate limit has been exceeded (429).
+ */
+export class RateLimitError extends CludzError {
+    constructor(message: string, options: CludzErrorOptions = {}) {
+        super(message, options);
+        this.name = "RateLimitError";
+    }
+}
+
+/**
+ * Thrown when the requested resource does not exist (404).
+ */
+export class NotFoundError extends CludzError {
+    constructor(message: string, options: CludzErrorOptions = {}) {
+        super(message, options);
+        this.name = "NotFoundError";
+    }
+}
+
+/**
+ * Thrown when the request is rejected as invalid (400/422), or when the SDK
+ * rejects invalid input before sending anything.
+ */
+export class ValidationError extends CludzError {
+    constructor(message: string, options: CludzErrorOptions = {}) {
+        super(message, options);
+        this.name = "ValidationError";
+    }
+}
+
+/**
+ * Thrown when the server fails to handle the request (5xx).
+ */
+export class ServerError extends CludzError {
+    constructor(message: string, options: CludzErrorOptions = {}) {
+        super(message, options);
+        this.name = "ServerError";
+    }
+}
+
+/**
+ * Thrown when the request never produced a response (DNS failure, dropped connection, etc.).
+ */
+export class NetworkError extends CludzError {
+    constructor(message: string, options: CludzErrorOptions = {}) {
+        super(message, options);
+        this.name = "NetworkError";
+    }
+}
+
+/**
+ * Thrown when an operation is cancelled through its `AbortSignal`.
+ */
+export class AbortError extends CludzError {
+    constructor(message: string = "The operation was aborted", options: CludzErrorOptions = {}) {
+        super(message, options);
+        this.name = "AbortError";
+    }
+}
+
+/**
+ * Thrown when an operation does not finish within its timeout.
+ */
+export class TimeoutError extends CludzError {
+    /** The timeout that was exceeded, in milliseconds. */
+    public readonly timeout: number;
+
+    constructor(message: string, timeout: number, options: CludzErrorOptions = {}) {
+        super(message, options);
+        this.name = "TimeoutError";
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Thrown when a background task finishes with the "Failed" status.
+ */
+export class TaskFailedError extends CludzError {
+    /** The identifier of the failed task. */
+    public readonly taskId: string;
+    /** The final state reported for the task. */
+    public readonly task: TaskState<unknown>;
+
+    constructor(task: TaskState<unknown>, options: CludzErrorOptions = {}) {
+        super(task.message || task.error || "Task failed", options);
+        this.name = "TaskFailedError";
+        this.taskId = task.id;
+        this.task = task;
+    }
+}
+
+/**
+ * Thrown when a background task does not finish within the allowed time.
+ */
+export class TaskTimeoutError extends TimeoutError {
+    /** The identifier of the task that timed out. */
+    public readonly taskId: string;
+
+    constructor(taskId: string, timeout: number, options: CludzErrorOptions = {}) {
+        super(`Task timeout after ${timeout}ms`, timeout, options);
+        this.name = "TaskTimeoutError";
+        this.taskId = taskId;
+    }
+}
+
+/**
+ * Thrown when transferred content does not match the checksum or size reported for it.
+ */
+export class ChecksumMismatchError extends CludzError {
+    /** The storage path of the file that failed verification. */
+    public readonly path: string;
+    /** The checksum (or size) reported by the server. */
+    public readonly expected: string;
+    /** The checksum (or size) computed locally. */
+    public readonly actual: string;
+
+    constructor(path: string, expected: string, actual: string, options: CludzErrorOptions = {}) {
+        super(`Integrity check failed for ${path}: expected ${expected}, got ${actual}`, options);
+        this.name = "ChecksumMismatchError";
+        this.path = path;
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
+
+/**
+ * Parses the `Retry-After` header into milliseconds.
+ * Supports both the delay-seconds and HTTP-date forms.
+ * @param value The raw header value.
+ * @returns The delay in milliseconds, or undefined if the header is absent or invalid.
+ * @internal
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+/**
+ * Extracts rate limit details from the `X-RateLimit-*` response headers.
+ * @param headers The response headers.
+ * @returns The rate limit details, or undefined if no rate limit headers are present.
+ * @internal
+ */
+export function parseRateLimit(headers: Headers): RateLimitInfo | undefined {
+    const limit = headers.get("x-ratelimit-limit");
+    const remaining = headers.get("x-ratelimit-remaining");
+    const reset = headers.get("x-ratelimit-reset");
+
+    if (limit === null && remaining === null && reset === null) {
+        return undefined;
+    }
+
+    return {
+        limit: limit !== null ? Number(limit) : undefined,
+        remaining: remaining !== null ? Number(remaining) : undefined,
+        resetInSeconds: reset !== null ? Number(reset) : undefined,
+    };
+}
+
+/**
+ * Builds the appropriate error subclass for a non-OK HTTP response.
+ * @param message The error message.
+ * @param status The HTTP status code.
+ * @param options Additional error context.
+ * @returns The typed error instance.
+ * @internal
+ */
+export function createApiError(message: string, status: number, options: CludzErrorOptions = {}): CludzError {
+    const context = { ...options, status };
+
+    if (status === 401 || status === 403) return new AuthenticationError(message, context);
+    if (status === 404) return new NotFoundError(message, context);
+    if (status === 429) return new RateLimitError(message, context);
+    if (status === 400 || status === 422) return new ValidationError(message, context);
+    if (status >= 500) return new ServerError(message, context);
+
+    return new CludzError(message, context);
+}
+
+/**
+ * Reads a failed response and converts it into a typed error.
+ * The body is parsed as JSON when possible and kept as text otherwise.
+ * @param response The non-OK response.
+ * @param endpoint The endpoint or path that was requested.
+ * @param method The HTTP method that was used.
+ * @param prefix Optional prefix for the message (e.g., "Upload failed").
+ * @returns A promise that resolves to the typed error instance.
+ * @internal
+ */
+export async function errorFromResponse(
+    response: Response,
+    endpoint: string,
+    method: string,
+    prefix?: string
+): Promise<CludzError> {
+    const text = await response.text().catch(() => "");
+
+    let body: ApiResponse | undefined;
+    try {
+        body = text ? JSON.parse(text) : undefined;
+    } catch {
+        body = undefined;
+    }
+
+    const detail = body?.message || body?.statusMessage || text || `API Error: ${response.status}`;
+    const message = prefix
+        ? `${prefix}: ${response.status} ${response.statusText} - ${detail}`
+        : detail;
+
+    return createApiError(message, response.status, {
+        endpoint,
+        method,
+        response: body,
+        rateLimit: parseRateLimit(response.headers),
+        retryAfter: parseRetryAfter(response.headers.get("retry-after")),
+    });
+}
@@ -0,0 +1,144 @@
+/**
+ * Checks whether a path contains glob wildcards (`*`, `?`, `[...]` or `{a,b}`).
+ * @param path The path or pattern.
+ * @returns True if the path is a glob pattern.
+ * @internal
+ */
+export function isGlob(path: string): boolean {
+    return /[*?[{]/.test(path);
+}
+
+/**
+ * Returns the directory part of a glob pattern that precedes its first wildcard.
+ * @param pattern The glob pattern.
+ * @returns The base directory, or "." if the pattern starts with a wildcard.
+ * @internal
+ */
+export function globBase(pattern: string): string {
+    return splitGlob(pattern).base;
+}
+
+/**
+ * Lists the files in a local directory.
+ * @param dir The directory to list.
+ * @param recursive Whether to descend into subdirectories.
+ * @returns An async generator of file paths, in directory order.
+ * @internal
+ */
+export async function* listFiles(dir: string, recursive: boolean = false): AsyncGenerator<string, void, undefined> {
+    const { readdir } = await import("node:fs/promises");
+    const { join } = await import("node:path");
+
+    const entries = await readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (recursive) yield* listFiles(path, true);
+        } else if (entry.isFile()) {
+            yield path;
+        }
+    }
+}
+
+/**
+ * Expands a glob pattern into matching local files. Supports `*`, `?`, `[...]`,
+ * `{a,b}` alternatives and `**` (any number of directories). Separators are always `/` in patterns.
+ * @param pattern The glob pattern, e.g., "./assets/**\/*.png".
+ * @returns An async generator of matching file paths.
+ * @internal
+ */
+export async function* expandGlob(pattern: string): AsyncGenerator<string, void, undefined> {
+    const { relative, sep } = await import("node:path");
+
+    const { base, rest } = splitGlob(pattern);
+    const matcher = globToRegExp(rest.join("/"));
+    const recursive = rest.length > 1 || rest[0] === "**";
+
+    for await (const path of listFiles(base, recursive)) {
+        if (matcher.test(relative(base, path).split(sep).join("/"))) yield path;
+    }
+}
+
+/**
+ * Creates a predicate that tests relative paths against glob patterns. Patterns without a "/"
+ * match a file or directory name at any depth (e.g., "*.tmp" or "node_modules"); others match the whole path.
+ * @param patterns The glob patterns.
+ * @returns A function that returns true if a relative path, with "/" separators, matches any pattern.
+ * @internal
+ */
+export function pathMatcher(patterns: string[]): (path: string) => boolean {
+    const matchers = patterns.map((pattern) => {
+        const glob = pattern.replace(/\\/g, "/").replace(/^\.?\//, "").replace(/\/$/, "");
+        const regexp = globToRegExp(glob);
+        return glob.includes("/")
+            ? (path: string) => regexp.test(path)
+            : (path: string) => regexp.test(path.slice(path.lastIndexOf("/") + 1));
+    });
+
+    return (path) => matchers.some((match) => match(path));
+}
+
+/**
+ * Splits a glob pattern into its literal base directory and the wildcard segments after it.
+ * @param pattern The glob pattern.
+ * @returns The base directory and the remaining segments.
+ * @private
+ */
+function splitGlob(pattern: string): { base: string; rest: string[] } {
+    const segments = pattern.replace(/\\/g, "/").split("/");
+    let firstGlob = segments.findIndex(isGlob);
+    if (firstGlob === -1) firstGlob = segments.length - 1;
+
+    const base = segments.slice(0, firstGlob).join("/") || (pattern.startsWith("/") ? "/" : ".");
+    return { base, rest: segments.slice(firstGlob) };
+}
+
+/**
+ * Converts a glob pattern relative to its base directory into a regular expression.
+ * @param glob The glob pattern.
+ * @returns The equivalent regular expression.
+ * @private
+ */
+function globToRegExp(glob: string): RegExp {
+    let source = "";
+    let braces = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i] as string;
+
+        if (char === "*") {
+            if (glob[i + 1] === "*") {
+                // "**/" matches zero or more directories; a trailing "**" matches everything.
+                const slash = glob[i + 2] === "/";
+                source += slash ? "(?:.*/)?" : ".*";
+                i += slash ? 2 : 1;
+            } else {
+                source += "[^/]*";
+            }
+        } else if (char === "?") {
+            source += "[^/]";
+        } else if (char === "[") {
+            const end = glob.indexOf("]", i + 1);
+            if (end === -1) {
+                source += "\\[";
+            } else {
+                source += `[${glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+                i = end;
+            }
+        } else if (char === "{") {
+            braces++;
+            source += "(?:";
+        } else if (char === "}" && braces > 0) {
+            braces--;
+            source += ")";
+        } else if (char === "," && braces > 0) {
+            source += "|";
+        } else {
+            source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,304 @@
+import { CludzError, NetworkError, AbortError, TimeoutError, errorFromResponse } from "./errors";
+import type { RetryOptions, FetchLike, Middleware, RequestContext } from "./types";
+
+/**
+ * Retry policy used when neither the client nor the call overrides a setting.
+ * Only idempotent methods are retried by default.
+ * @internal
+ */
+export const DEFAULT_RETRY: Required<RetryOptions> = {
+    maxAttempts: 3,
+    baseDelay: 500,
+    maxDelay: 30000,
+    factor: 2,
+    jitter: true,
+    statusCodes: [408, 429, 500, 502, 503, 504],
+    methods: ["GET", "PUT", "DELETE"],
+    retryNetworkErrors: true,
+};
+
+/**
+ * Options for sending a single HTTP request through the shared transport.
+ * @internal
+ */
+export interface SendOptions {
+    /** The endpoint or path being requested, used for error context. */
+    endpoint: string;
+    /** The resolved retry policy, or null to send the request only once. */
+    retry: Required<RetryOptions> | null;
+    /** Optional prefix for error messages (e.g., "Upload failed"). */
+    errorPrefix?: string;
+    /** The fetch implementation to use. */
+    fetch: FetchLike;
+    /** Middleware to run around the request, in order. */
+    middleware: Middleware[];
+    /** Signal used to cancel the request, including retry delays. */
+    signal?: AbortSignal;
+    /** Timeout for each attempt in milliseconds. Disabled when unset or 0. */
+    timeout?: number;
+    /**
+     * Waits for permission to send each attempt, e.g., a rate limiter slot. The returned function is called
+     * when the attempt fails, or once the body of the successful response has been read or cancelled.
+     */
+    acquire?: (signal?: AbortSignal) => Promise<() => void>;
+}
+
+/**
+ * The global fetch, looked up at call time so later polyfills are picked up.
+ * @internal
+ */
+export const defaultFetch: FetchLike = (input, init) => fetch(input, init);
+
+/**
+ * Merges the client retry settings with a per-call override.
+ * @param method The HTTP method of the request.
+ * @param base The client-wide retry settings, or false if retries are disabled.
+ * @param override The per-call override. `false` disables retries, `true` allows retrying any method.
+ * @returns The resolved policy, or null if the request must not be retried.
+ * @internal
+ */
+export function resolveRetryPolicy(
+    method: string,
+    base: RetryOptions | false | undefined,
+    override: RetryOptions | boolean | undefined
+): Required<RetryOptions> | null {
+    if (override === false) return null;
+    if (base === false && override === undefined) return null;
+
+    const policy: Required<RetryOptions> = {
+        ...DEFAULT_RETRY,
+        ...(base || {}),
+        ...(typeof override === "object" ? override : {}),
+    };
+
+    const allowed = override === true || policy.methods.some((m) => m.toUpperCase() === method.toUpperCase());
+    if (!allowed || policy.maxAttempts <= 1) return null;
+
+    return policy;
+}
+
+/**
+ * Determines whether a failed attempt may be retried under the given policy.
+ * @param policy The resolved retry policy.
+ * @param error The error thrown by the attempt.
+ * @returns True if the request should be attempted again.
+ * @internal
+ */
+export function isRetryable(policy: Required<RetryOptions>, error: unknown): boolean {
+    if (error instanceof NetworkError || error instanceof TimeoutError) return policy.retryNetworkErrors;
+    if (error instanceof CludzError && error.status !== undefined) {
+        return policy.statusCodes.includes(error.status);
+    }
+    return false;
+}
+
+/**
+ * Computes how long to wait before the next attempt.
+ * Uses exponential backoff with full jitter, but never waits less than the
+ * server asked for through `Retry-After` or an exhausted rate limit window.
+ * @param policy The resolved retry policy.
+ * @param attempt The number of attempts made so far (1-based).
+ * @param error The error thrown by the last attempt.
+ * @returns The delay in milliseconds.
+ * @internal
+ */
+export function computeRetryDelay(policy: Required<RetryOptions>, attempt: number, error: unknown): number {
+    let delay = Math.min(policy.maxDelay, policy.baseDelay * policy.factor ** (attempt - 1));
+    if (policy.jitter) delay = Math.random() * delay;
+
+    if (error instanceof CludzError) {
+        let hint = error.retryAfter;
+        if (hint === undefined && error.rateLimit?.remaining === 0 && error.rateLimit.resetInSeconds !== undefined) {
+            hint = error.rateLimit.resetInSeconds * 1000;
+        }
+        if (hint !== undefined) delay = Math.max(delay, hint);
+    }
+
+    return delay;
+}
+
+/**
+ * Resolves after the given number of milliseconds, or rejects as soon as the signal aborts.
+ * @param ms The delay in milliseconds.
+ * @param signal Optional signal that cancels the wait.
+ * @throws AbortError if the signal aborts before the delay elapses.
+ * @internal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AbortError(undefined, { cause: signal.reason }));
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AbortError(undefined, { cause: signal?.reason }));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Performs a single attempt: runs the middleware, fetches, and converts failures into typed errors.
+ * @param context The request context for this attempt.
+ * @param options Transport options for this request.
+ * @returns A promise that resolves to the successful response.
+ * @private
+ */
+async function attempt(context: RequestContext, options: SendOptions): Promise<Response> {
+    const abortContext = { endpoint: options.endpoint, method: context.method };
+    if (options.signal?.aborted) {
+        throw new AbortError(undefined, { ...abortContext, cause: options.signal.reason });
+    }
+
+    let response: Response | undefined;
+
+    for (const middleware of options.middleware) {
+        const result = await middleware.onRequest?.(context);
+        if (result instanceof Response) {
+            response = result;
+            break;
+        }
+    }
+
+    if (!response) {
+        const timeoutSignal = options.timeout ? AbortSignal.timeout(options.timeout) : undefined;
+        const signals = [options.signal, timeoutSignal].filter((s): s is AbortSignal => s !== undefined);
+        const signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+
+        try {
+            response = await options.fetch(context.url, { ...context.init, method: context.method, headers: context.headers, signal });
+        } catch (error: any) {
+            if (options.signal?.aborted) {
+                throw new AbortError(undefined, { ...abortContext, cause: options.signal.reason });
+            }
+            if (timeoutSignal?.aborted) {
+                const message = `${options.errorPrefix || "Request failed"}: timed out after ${options.timeout}ms`;
+                throw new TimeoutError(message, options.timeout as number, { ...abortContext, cause: error });
+            }
+
+            const message = `${options.errorPrefix || "Request failed"}: ${error?.message ?? error}`;
+            throw new NetworkError(message, { endpoint: options.endpoint, method: context.method, cause: error });
+        }
+    }
+
+    for (const middleware of options.middleware) {
+        const result: void | Response = await middleware.onResponse?.(response, context);
+        if (result instanceof Response) response = result;
+    }
+
+    if (!response.ok) {
+        throw await errorFromResponse(response, options.endpoint, context.method, options.errorPrefix);
+    }
+
+    return response;
+}
+
+/**
+ * Sends an HTTP request, retrying transient failures according to the policy.
+ * If the server asks to wait longer than the policy's `maxDelay`, the last error is thrown instead.
+ * @param url The full request URL.
+ * @param init The fetch request configuration.
+ * @param options Transport options for this request.
+ * @returns A promise that resolves to the successful response.
+ * @throws NetworkError if the request could not be sent.
+ * @throws AbortError if the signal aborts, or TimeoutError if an attempt exceeds the timeout.
+ * @throws CludzError (or a subclass) if the server returns a non-OK response.
+ * @internal
+ */
+export async function send(url: string, init: RequestInit, options: SendOptions): Promise<Response> {
+    const policy = options.retry;
+    const { headers, method, ...rest } = init;
+
+    const context: RequestContext = {
+        url,
+        method: (method || "GET").toUpperCase(),
+        endpoint: options.endpoint,
+        headers: new Headers(headers),
+        init: rest,
+        attempt: 1,
+    };
+
+    for (; ; context.attempt++) {
+        let release: (() => void) | undefined;
+        try {
+            release = await options.acquire?.(options.signal);
+            const response = await attempt(context, options);
+            return release ? releaseOnConsumed(response, release) : response;
+        } catch (error) {
+            release?.();
+            if (!policy || context.attempt >= policy.maxAttempts || !isRetryable(policy, error)) {
+                throw await handleError(error, context, options);
+            }
+
+            const delay = computeRetryDelay(policy, context.attempt, error);
+            if (delay > policy.maxDelay) throw await handleError(error, context, options);
+
+            await sleep(delay, options.signal);
+        }
+    }
+}
+
+/**
+ * Wraps a response so that a callback runs once its body has been fully read, has failed or was cancelled.
+ * @param response The successful response.
+ * @param release The callback to run.
+ * @returns A response with the same status and headers whose body runs the callback when it ends.
+ * @private
+ */
+function releaseOnConsumed(response: Response, release: () => void): Response {
+    if (!response.body) {
+        release();
+        return response;
+    }
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { done, value } = await reader.read();
+                if (done) {
+                    release();
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            } catch (error) {
+                release();
+                controller.error(error);
+            }
+        },
+        cancel(reason) {
+            release();
+            return reader.cancel(reason);
+        },
+    });
+
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * Passes the final error through every middleware's `onError` hook.
+ * @param error The error to handle.
+ * @param context The request context.
+ * @param options Transport options for this request.
+ * @returns A promise that resolves to the error that should be thrown.
+ * @private
+ */
+async function handleError(error: unknown, context: RequestContext, options: SendOptions): Promise<unknown> {
+    let current = error;
+
+    for (const middleware of options.middleware) {
+        if (!middleware.onError || !(current instanceof Error)) continue;
+        const result = await middleware.onError(current, context);
+        if (result instanceof Error) current = result;
+    }
+
+    return current;
+}
@@ -5,9 +5,53 @@ import { Account } from "./modules/account";
 import { Image } from "./modules/image";
 import { Tasks } from "./modules/tasks";
 export { Storage } from "./modules/storage";
-export type { StorageSource } from "./modules/storage";
+export { RateLimiter } from "./limiter";
+export { JsonFileTaskJournal } from "./journal";
+export { PLATFORMS, detectPlatform, isPlatform } from "./platforms";
+export type { Platform, PlatformDefinition, DetectedPlatform } from "./platforms";
+export { TaskHandle } from "./modules/tasks";
+export { DownloadQueue } from "./modules/queue";
+export { StorageWatcher } from "./modules/watcher";
+export { ImagePipeline } from "./modules/image";
+export type {
+    ImageSource,
+    ImageFormat,
+    CropRegion,
+    ImageOperation,
+    ImageBatchInput,
+    ImageBatchFile,
+    ImageBatchOptions,
+    ImageBatchItem,
+    ImageBatchResult,
+} from "./modules/image";
+export { BinaryResult, ImageResult } from "./binary";
+export type { BinaryFormat, RasterFormat, ImageInfo } from "./binary";
+export type { ChecksumAlgorithm } from "./checksum";
+export type { TaskEvents, ResumedTaskResult } from "./modules/tasks";
+export type { StorageSource, StorageStreamSource } from "./modules/storage";
+export type { StorageWatchEvents } from "./modules/watcher";
+export {
+    CludzError,
+    AuthenticationError,
+    RateLimitError,
+    NotFoundError,
+    ValidationError,
+    ServerError,
+    NetworkError,
+    AbortError,
+    TimeoutError,
+    TaskFailedError,
+    TaskTimeoutError,
+    ChecksumMismatchError,
+} from "./errors";
+export type { CludzErrorOptions } from "./errors";
+export type * from "./types";
 
-import type { CludzOptions, RequestOptions } from "./types";
+import { CludzError, ValidationError, RateLimitError, parseRateLimit } from "./errors";
+import { send, resolveRetryPolicy, defaultFetch } from "./http";
+import { RateLimiter } from "./limiter";
+import { JsonFileTaskJournal } from "./journal";
+import type { CludzOptions, RequestOptions, RetryOptions, FetchLike, Middleware, TaskJournalStore } from "./types";
 
 /**
  * The main Cludz SDK client.
@@ -18,6 +62,22 @@ export class Cludz {
     public readonly baseUrl: string;
     /** The API key used for authentication. */
     public readonly key?: string;
+    /** Default retry policy applied to every request. */
+    public readonly retry?: RetryOptions | false;
+    /** Request/response middleware applied to every request, in order. */
+    public readonly middleware: Middleware[];
+    /** Default timeout for each HTTP request in milliseconds. */
+    public readonly timeout?: number;
+    /** The client-side rate limiter, if enabled through the `rateLimit` option. */
+    public readonly rateLimiter?: RateLimiter;
+    /** The task journal, if enabled through the `journal` option. */
+    public readonly journal?: TaskJournalStore;
+    /** Callback for journal write failures, set through the `onJournalError` option. */
+    public readonly onJournalError?: (error: Error) => void;
+    /** Maximum size in bytes of local images uploaded by the Image module. */
+    public readonly maxUploadSize?: number;
+    /** The fetch implementation used to send requests. */
+    private readonly fetch: FetchLike;
     
     // public readonly ai: AI;
     /** Module for downloading media from supported platforms. */
@@ -34,13 +94,25 @@ export class Cludz {
     /**
      * Initializes a new instance of the Cludz client.
      * @param options Configuration options for the client.
-     * @throws Error if the API URL is not provided.
+     * @throws ValidationError if the API URL is not provided.
      */
     constructor(options: CludzOptions) {
-        if (!options.api) throw new Error("API URL is required");
+        if (!options.api) throw new ValidationError("API URL is required");
         
         this.baseUrl = options.api.replace(/\/$/, "");
         this.key = options.key;
+        this.retry = options.retry;
+        this.middleware = [...(options.middleware ?? [])];
+        this.fetch = options.fetch ?? defaultFetch;
+        this.timeout = options.timeout;
+        this.maxUploadSize = options.maxUploadSize;
+        if (options.journal) {
+            this.journal = typeof options.journal === "string" ? new JsonFileTaskJournal(options.journal) : options.journal;
+        }
+        this.onJournalError = options.onJournalError;
+        if (options.rateLimit) {
+            this.rateLimiter = new RateLimiter(options.rateLimit === true ? {} : options.rateLimit);
+        }
 
         // this.ai = new AI(this);
         this.downloader = new Downloader(this);
@@ -50,12 +122,84 @@ export class Cludz {
         this.tasks = new Tasks(this);
     }
 
+    /**
+     * Fetches an absolute URL (e.g., a task's download URL) through the client's transport.
+     * The API key is only sent, and the rate limiter only applied, when the URL is on the API host.
+     * @param url The absolute URL to fetch.
+     * @param options Request configuration including method, abort signal, timeout and retry override.
+     * @returns A promise that resolves to the raw, unconsumed response.
+     * @throws CludzError (or a subclass) if the request fails.
+     * @internal
+     */
+    async _fetch(url: string, options: RequestOptions = {}): Promise<Response> {
+        const target = new URL(url);
+        const sameOrigin = target.origin === new URL(this.baseUrl).origin;
+
+        const headers: Record<string, string> = {};
+        if (sameOrigin && this.key) {
+            headers["X-API-Key"] = this.key;
+        }
+
+        return this.dispatch(target.toString(), { method: options.method || "GET", headers }, target.pathname, options, sameOrigin);
+    }
+
+    /**
+     * Sends a prepared request through the rate limiter and the shared transport.
+     * Every attempt, including retries, takes a token from the limiter, and its concurrency slot
+     * is held until the response body has been read or cancelled.
+     * @param url The full request URL.
+     * @param fetchOptions The fetch request configuration.
+     * @param endpoint The endpoint used for error context.
+     * @param options Per-call options (signal, timeout, retry).
+     * @param limited Whether the request counts against the client-side rate limiter.
+     * @returns A promise that resolves to the successful response.
+     * @private
+     */
+    private async dispatch(
+        url: string,
+        fetchOptions: RequestInit,
+        endpoint: string,
+        options: RequestOptions,
+        limited: boolean = true
+    ): Promise<Response> {
+        const limiter = limited ? this.rateLimiter : undefined;
+
+        let response: Response;
+        try {
+            response = await send(url, fetchOptions, {
+                endpoint,
+                retry: resolveRetryPolicy(fetchOptions.method || "GET", this.retry, options.retry),
+                fetch: this.fetch,
+                middleware: this.middleware,
+                signal: options.signal,
+                timeout: options.timeout ?? this.timeout,
+                acquire: limiter && ((signal) => limiter.acquire(signal)),
+            });
+        } catch (error) {
+            if (limiter && error instanceof CludzError) {
+                if (error.rateLimit) limiter.seed(error.rateLimit);
+                else if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+                    limiter.seed({ remaining: 0, resetInSeconds: error.retryAfter / 1000 });
+                }
+            }
+            throw error;
+        }
+
+        const rateLimit = limiter && parseRateLimit(response.headers);
+        if (rateLimit) limiter?.seed(rateLimit);
+
+        return response;
+    }
+
     /**
      * Internal request handler using fetch.
      * @param endpoint The API endpoint to request (e.g., "/v1/youtube/download").
-     * @param options Request configuration including method, query params, and body.
+     * @param options Request configuration including method, query params, body, and retry override.
      * @returns A promise that resolves to the parsed JSON data or a Response object for binary content.
-     * @throws Error if the API returns a non-OK response.
+     * @throws NetworkError if the request could not be sent.
+     * @throws CludzError if a JSON response cannot be parsed.
+     * @throws AbortError if the request was cancelled, or TimeoutError if it timed out.
+     * @throws CludzError (or a subclass) if the API returns a non-OK response.
      * @internal
      */
     async _request<T = any>(endpoint: string, options: RequestOptions = {}): Promise<T | Response> {
@@ -92,19 +236,23 @@ export class Cludz {
             }
         }
 
-        const response = await fetch(url.toString(), fetchOptions);
+        const response = await this.dispatch(url.toString(), fetchOptions, endpoint, options);
         
-        const contentType = response.headers.get("content-type");
-        if (contentType && (contentType.includes("image/") || contentType.includes("application/pdf"))) {
+        // Anything other than JSON or text is binary content: images, PDFs and generic octet streams.
+        const contentType = response.headers.get("content-type")?.toLowerCase();
+        if (contentType && !/[/+]json\b/.test(contentType) && !contentType.startsWith("text/")) {
             return response;
         }
 
-        const data = await response.json() as any;
-
-        if (!response.ok) {
-            throw new Error(data.message || data.statusMessage || `API Error: ${response.status}`);
+        try {
+            return await response.json() as T;
+        } catch (error) {
+            throw new CludzError(`Invalid JSON response from ${endpoint}`, {
+                status: response.status,
+                endpoint,
+                method: fetchOptions.method,
+                cause: error,
+            });
         }
-
-        return data as T;
     }
 }
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { CludzError } from "./errors";
+import type { TaskJournalEntry, TaskJournalStore } from "./types";
+
+/**
+ * Default task journal that keeps entries in a JSON file on disk.
+ * Writes are serialized and replace the file atomically, so concurrent
+ * updates from the same process never interleave.
+ */
+export class JsonFileTaskJournal implements TaskJournalStore {
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Initializes a new JSON file journal.
+     * @param path Path of the JSON file. It is created on the first write.
+     */
+    constructor(public readonly path: string) {}
+
+    /**
+     * Retrieves a single entry.
+     * @param id The task identifier.
+     * @returns A promise that resolves to the entry, or undefined if it is not recorded.
+     */
+    async get(id: string): Promise<TaskJournalEntry | undefined> {
+        await this.queue;
+        return (await this.read())[id];
+    }
+
+    /**
+     * Inserts or replaces an entry.
+     * @param entry The entry to store.
+     * @returns A promise that resolves when the entry is written.
+     */
+    put(entry: TaskJournalEntry): Promise<void> {
+        return this.update((entries) => {
+            entries[entry.id] = entry;
+        });
+    }
+
+    /**
+     * Removes an entry.
+     * @param id The task identifier.
+     * @returns A promise that resolves when the entry is removed.
+     */
+    delete(id: string): Promise<void> {
+        return this.update((entries) => {
+            delete entries[id];
+        });
+    }
+
+    /**
+     * Lists every recorded entry.
+     * @returns A promise that resolves to all entries.
+     */
+    async list(): Promise<TaskJournalEntry[]> {
+        await this.queue;
+        return Object.values(await this.read());
+    }
+
+    /**
+     * Reads the journal file, treating a missing file as an empty journal.
+     * @returns A promise that resolves to the entries keyed by task ID.
+     * @private
+     */
+    private async read(): Promise<Record<string, TaskJournalEntry>> {
+        return (await readJsonFile<Record<string, TaskJournalEntry>>(this.path, "task journal")) ?? {};
+    }
+
+    /**
+     * Applies a change to the journal and writes it back through a temporary file.
+     * @param change Function that mutates the entries in place.
+     * @returns A promise that resolves when the file is written.
+     * @private
+     */
+    private update(change: (entries: Record<string, TaskJournalEntry>) => void): Promise<void> {
+        const next = this.queue.then(async () => {
+            const entries = await this.read();
+            change(entries);
+            await writeJsonFile(this.path, entries, "task journal");
+        });
+
+        this.queue = next.catch(() => {});
+        return next;
+    }
+}
+
+/**
+ * Reads and parses a JSON file.
+ * @param path The file path.
+ * @param label What the file holds, for error messages (e.g., "task journal").
+ * @returns A promise that resolves to the parsed value, or undefined if the file does not exist or is empty.
+ * @throws CludzError if the file cannot be read or is not valid JSON.
+ * @internal
+ */
+export async function readJsonFile<T>(path: string, label: string): Promise<T | undefined> {
+    const { readFile } = await import("node:fs/promises");
+
+    let text: string;
+    try {
+        text = await readFile(path, "utf8");
+    } catch (error: any) {
+        if (error?.code === "ENOENT") return undefined;
+        throw new CludzError(`Failed to read ${label}: ${error.message}`, { cause: error });
+    }
+
+    try {
+        return text.trim() ? JSON.parse(text) : undefined;
+    } catch (error: any) {
+        throw new CludzError(`The ${label} is not valid JSON: ${path}`, { cause: error });
+    }
+}
+
+/**
+ * Writes a value as JSON, replacing the file atomically through a temporary file.
+ * @param path The file path. Missing parent directories are created.
+ * @param value The value to serialize.
+ * @param label What the file holds, for error messages (e.g., "task journal").
+ * @returns A promise that resolves when the file is written.
+ * @throws CludzError if the file cannot be written.
+ * @internal
+ */
+export async function writeJsonFile(path: string, value: unknown, label: string): Promise<void> {
+    const { writeFile, rename, mkdir } = await import("node:fs/promises");
+    const { dirname } = await import("node:path");
+
+    const temp = `${path}.${process.pid}.tmp`;
+    try {
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(temp, JSON.stringify(value, null, 2));
+        await rename(temp, path);
+    } catch (error: any) {
+        throw new CludzError(`Failed to write ${label}: ${error.message}`, { cause: error });
+    }
+}
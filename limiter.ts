@@ -0,0 +1,175 @@
+import { AbortError } from "./errors";
+import type { RateLimitInfo, RateLimiterOptions } from "./types";
+
+/**
+ * A request waiting for a slot in the limiter.
+ * @private
+ */
+interface Waiter {
+    resolve: (release: () => void) => void;
+    reject: (error: unknown) => void;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+}
+
+/**
+ * Client-side token bucket limiter with an independent concurrency cap.
+ * Requests that exceed the budget are queued in FIFO order until a token is available.
+ */
+export class RateLimiter {
+    /** Maximum number of requests allowed in flight at once. */
+    public maxConcurrency: number;
+
+    private limitPerMinute?: number;
+    private tokens: number;
+    private lastRefill: number;
+    private blockedUntil = 0;
+    private running = 0;
+    private readonly queue: Waiter[] = [];
+    private timer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * Initializes a new rate limiter.
+     * @param options Initial quota and concurrency settings.
+     */
+    constructor(options: RateLimiterOptions = {}) {
+        this.limitPerMinute = options.requestsPerMinute;
+        this.maxConcurrency = options.maxConcurrency ?? Infinity;
+        this.tokens = options.requestsPerMinute ?? Infinity;
+        this.lastRefill = Date.now();
+    }
+
+    /** Number of requests waiting for a slot. */
+    get pending(): number {
+        return this.queue.length;
+    }
+
+    /** Number of requests currently in flight. */
+    get active(): number {
+        return this.running;
+    }
+
+    /** Tokens currently available in the bucket. */
+    get available(): number {
+        this.refill();
+        return this.tokens;
+    }
+
+    /**
+     * Updates the bucket from server-reported quota, e.g., from `account.me()` or rate limit headers.
+     * @param info The reported limit, remaining requests and reset time.
+     */
+    seed(info: RateLimitInfo): void {
+        this.refill();
+
+        if (info.limit !== undefined && Number.isFinite(info.limit) && info.limit > 0) {
+            this.limitPerMinute = info.limit;
+            this.tokens = Math.min(this.tokens, info.limit);
+        }
+
+        const resetKnown = info.resetInSeconds !== undefined && Number.isFinite(info.resetInSeconds);
+
+        if (info.remaining !== undefined && Number.isFinite(info.remaining)) {
+            if (info.remaining <= 0 && resetKnown) {
+                this.tokens = 0;
+                this.blockedUntil = Date.now() + (info.resetInSeconds as number) * 1000;
+            } else if (this.limitPerMinute !== undefined) {
+                // Without a known limit the bucket could never refill, so only trust `remaining` alongside one.
+                this.tokens = Math.max(0, Math.min(info.remaining, this.limitPerMinute));
+            }
+        }
+
+        this.drain();
+    }
+
+    /**
+     * Waits for a token and a concurrency slot.
+     * @param signal Optional signal that removes the request from the queue when aborted.
+     * @returns A promise that resolves to a function that must be called when the request finishes.
+     * @throws AbortError if the signal aborts while the request is queued.
+     */
+    acquire(signal?: AbortSignal): Promise<() => void> {
+        if (signal?.aborted) {
+            return Promise.reject(new AbortError(undefined, { cause: signal.reason }));
+        }
+
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = { resolve, reject, signal };
+
+            if (signal) {
+                waiter.onAbort = () => {
+                    const index = this.queue.indexOf(waiter);
+                    if (index !== -1) this.queue.splice(index, 1);
+                    reject(new AbortError(undefined, { cause: signal.reason }));
+                };
+                signal.addEventListener("abort", waiter.onAbort, { once: true });
+            }
+
+            this.queue.push(waiter);
+            this.drain();
+        });
+    }
+
+    /**
+     * Adds tokens accumulated since the last refill, at `limitPerMinute` per minute.
+     * Once a server-reported window resets, the bucket is refilled completely.
+     * @private
+     */
+    private refill(): void {
+        const now = Date.now();
+
+        if (this.blockedUntil) {
+            if (now < this.blockedUntil) {
+                this.lastRefill = now;
+                return;
+            }
+            this.blockedUntil = 0;
+            this.tokens = this.limitPerMinute ?? Infinity;
+        } else if (this.limitPerMinute !== undefined) {
+            const elapsed = now - this.lastRefill;
+            this.tokens = Math.min(this.limitPerMinute, this.tokens + (elapsed * this.limitPerMinute) / 60000);
+        }
+
+        this.lastRefill = now;
+    }
+
+    /**
+     * Hands out slots to queued requests while budget and concurrency allow,
+     * and schedules another pass for when the next token becomes available.
+     * @private
+     */
+    private drain(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+
+        this.refill();
+
+        while (this.queue.length > 0 && this.running < this.maxConcurrency) {
+            if (this.blockedUntil || this.tokens < 1) break;
+
+            const waiter = this.queue.shift() as Waiter;
+            if (waiter.signal && waiter.onAbort) {
+                waiter.signal.removeEventListener("abort", waiter.onAbort);
+            }
+
+            this.tokens -= 1;
+            this.running++;
+
+            let released = false;
+            waiter.resolve(() => {
+                if (released) return;
+                released = true;
+                this.running--;
+                this.drain();
+            });
+        }
+
+        if (this.queue.length > 0 && this.running < this.maxConcurrency) {
+            const waitForReset = this.blockedUntil ? this.blockedUntil - Date.now() : 0;
+            const waitForToken = this.limitPerMinute ? ((1 - this.tokens) * 60000) / this.limitPerMinute : 0;
+            this.timer = setTimeout(() => this.drain(), Math.max(waitForReset, waitForToken, 1));
+        }
+    }
+}
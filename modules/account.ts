@@ -1,5 +1,5 @@
 import type { Cludz } from "../index";
-import type { ApiResponse, AccountInfo, MonitoringStats } from "../types";
+import type { ApiResponse, AccountInfo, MonitoringStats, CallOptions } from "../types";
 
 /**
  * Module for account management and status monitoring.
@@ -10,17 +10,31 @@ export class Account {
 
     /**
      * Retrieves current account information and API key details.
+     * When the client-side rate limiter is enabled, it is updated with the reported quota.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves to the account information.
      */
-    async me(): Promise<ApiResponse<AccountInfo>> {
-        return this.sdk._request("/v1/me") as Promise<ApiResponse<AccountInfo>>;
+    async me(options: CallOptions = {}): Promise<ApiResponse<AccountInfo>> {
+        const resp = await this.sdk._request("/v1/me", options) as ApiResponse<AccountInfo>;
+
+        const rateLimit = resp.data?.rate_limit;
+        if (rateLimit) {
+            this.sdk.rateLimiter?.seed({
+                limit: rateLimit.limit_per_minute,
+                remaining: rateLimit.remaining,
+                resetInSeconds: rateLimit.reset_in_seconds,
+            });
+        }
+
+        return resp;
     }
 
     /**
      * Retrieves API status and overall monitoring statistics.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves to the monitoring statistics.
      */
-    async status(): Promise<MonitoringStats> {
-        return this.sdk._request("/monitoring/stats") as Promise<MonitoringStats>;
+    async status(options: CallOptions = {}): Promise<MonitoringStats> {
+        return this.sdk._request("/monitoring/stats", options) as Promise<MonitoringStats>;
     }
 }
@@ -1,5 +1,23 @@
 import type { Cludz } from "../index";
-import type { ApiResponse, TaskResult } from "../types";
+import type { TaskHandle } from "./tasks";
+import { DownloadQueue } from "./queue";
+import { CludzError, ValidationError } from "../errors";
+import { PLATFORMS, detectPlatform, downloadQuery, isPlatform } from "../platforms";
+import type { Platform, DetectedPlatform } from "../platforms";
+import { writeStream, contentLength, dispositionFileName, isDirectoryPath } from "../stream";
+import type {
+    ApiResponse,
+    TaskResult,
+    CallOptions,
+    DownloadResult,
+    YouTubeSearchList,
+    MediaFetchOptions,
+    MediaFetchResult,
+    TaskState,
+    DownloadQueueItem,
+    DownloadQueueOptions,
+    DownloadOptions,
+} from "../types";
 
 /**
  * Module for downloading media from various platforms.
@@ -16,36 +34,47 @@ export class Downloader {
          * Search for YouTube videos.
          * @param query The search query.
          * @param limit Maximum number of results to return (default: 1).
-         * @returns A promise that resolves to the search results.
+         * @param options Per-call options such as an abort signal, timeout or retry override.
+         * @returns A promise that resolves to a handle for the search task.
          */
-        search: (query: string, limit: number = 1): Promise<ApiResponse<TaskResult>> => {
-            return this.sdk._request("/v1/youtube/search", {
-                query: { query, limit }
-            }) as Promise<ApiResponse<TaskResult>>;
+        search: (query: string, limit: number = 1, options: CallOptions = {}): Promise<TaskHandle<YouTubeSearchList>> => {
+            return this.start<YouTubeSearchList>("downloader.youtube.search", "/v1/youtube/search", { query, limit }, options);
         },
 
         /**
          * Download a YouTube video by search query (directs to the first result).
          * @param query The search query.
-         * @param format The desired output format ("mp3" or "mp4"). Defaults to "mp4".
-         * @returns A promise that resolves to the task information.
+         * @param format The desired output format ("mp3" or "mp4"), or download options. Defaults to "mp4".
+         * @param options Per-call options such as an abort signal, timeout or retry override.
+         * @returns A promise that resolves to a handle for the download task.
+         * @throws ValidationError if a download option is invalid.
          */
-        searchDownload: (query: string, format: "mp3" | "mp4" = "mp4"): Promise<ApiResponse<TaskResult>> => {
-            return this.sdk._request("/v1/youtube/search/download", {
-                query: { query, format }
-            }) as Promise<ApiResponse<TaskResult>>;
+        searchDownload: async (query: string, format: "mp3" | "mp4" | DownloadOptions = "mp4", options: CallOptions = {}): Promise<TaskHandle<DownloadResult>> => {
+            return this.start<DownloadResult>("downloader.youtube.searchDownload", "/v1/youtube/search/download", { query, ...downloadQuery(format) }, options);
         },
 
         /**
          * Download a YouTube video by its URL.
          * @param url The valid YouTube video URL.
-         * @param format The desired output format ("mp3" or "mp4"). Defaults to "mp4".
-         * @returns A promise that resolves to the task information.
+         * @param format The desired output format ("mp3" or "mp4"), or download options. Defaults to "mp4".
+         * @param options Per-call options such as an abort signal, timeout or retry override.
+         * @returns A promise that resolves to a handle for the download task.
+         * @throws ValidationError if a download option is invalid.
          */
-        download: (url: string, format: "mp3" | "mp4" = "mp4"): Promise<ApiResponse<TaskResult>> => {
-            return this.sdk._request("/v1/youtube/download", {
-                query: { url, format }
-            }) as Promise<ApiResponse<TaskResult>>;
+        download: async (url: string, format: "mp3" | "mp4" | DownloadOptions = "mp4", options: CallOptions = {}): Promise<TaskHandle<DownloadResult>> => {
+            return this.start<DownloadResult>("downloader.youtube.download", "/v1/youtube/download", { url, ...downloadQuery(format) }, options);
+        },
+
+        /**
+         * Download a YouTube video by its URL all the way to a local file or stream.
+         * Starts the task, waits for it, and streams the media without buffering it in memory.
+         * @param url The valid YouTube video URL.
+         * @param options Download options, destination, progress callback and per-call options.
+         * @returns A promise that resolves to the final path, size and content type.
+         * @throws ValidationError if a download option is invalid.
+         */
+        fetch: (url: string, options: MediaFetchOptions): Promise<MediaFetchResult> => {
+            return this.fetchMedia((media, call) => this.youtube.download(url, media, call), options);
         }
     };
 
@@ -56,13 +85,25 @@ export class Downloader {
         /**
          * Download a TikTok video or audio.
          * @param url The valid TikTok video URL.
-         * @param format The desired output format ("mp3" or "mp4"). Defaults to "mp4".
-         * @returns A promise that resolves to the task information.
+         * @param format The desired output format ("mp3" or "mp4"), or download options. Defaults to "mp4".
+         * @param options Per-call options such as an abort signal, timeout or retry override.
+         * @returns A promise that resolves to a handle for the download task.
+         * @throws ValidationError if a download option is invalid.
+         */
+        download: async (url: string, format: "mp3" | "mp4" | DownloadOptions = "mp4", options: CallOptions = {}): Promise<TaskHandle<DownloadResult>> => {
+            return this.start<DownloadResult>("downloader.tiktok.download", "/v1/tiktok/download", { url, ...downloadQuery(format) }, options);
+        },
+
+        /**
+         * Download a TikTok video or audio all the way to a local file or stream.
+         * Starts the task, waits for it, and streams the media without buffering it in memory.
+         * @param url The valid TikTok video URL.
+         * @param options Download options, destination, progress callback and per-call options.
+         * @returns A promise that resolves to the final path, size and content type.
+         * @throws ValidationError if a download option is invalid.
          */
-        download: (url: string, format: "mp3" | "mp4" = "mp4"): Promise<ApiResponse<TaskResult>> => {
-            return this.sdk._request("/v1/tiktok/download", {
-                query: { url, format }
-            }) as Promise<ApiResponse<TaskResult>>;
+        fetch: (url: string, options: MediaFetchOptions): Promise<MediaFetchResult> => {
+            return this.fetchMedia((media, call) => this.tiktok.download(url, media, call), options);
         }
     };
 
@@ -70,12 +111,213 @@ export class Downloader {
      * Generic downloader for other platforms.
      * @param platform The platform identifier (e.g., "instagram", "facebook").
      * @param url The media URL.
-     * @param format The desired output format ("mp3" or "mp4"). Defaults to "mp4".
-     * @returns A promise that resolves to the task information.
+     * @param format The desired output format ("mp3" or "mp4"), or download options. Defaults to "mp4".
+     * @param options Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to a handle for the download task.
+     * @throws ValidationError if the platform is not supported or a download option is invalid.
+     */
+    async download(
+        platform: Platform,
+        url: string,
+        format: "mp3" | "mp4" | DownloadOptions = "mp4",
+        options: CallOptions = {}
+    ): Promise<TaskHandle<DownloadResult>> {
+        if (!isPlatform(platform)) {
+            throw new ValidationError(
+                `Unsupported platform "${platform}". Supported: ${Object.keys(PLATFORMS).join(", ")}`
+            );
+        }
+
+        const query = { url, ...downloadQuery(format) };
+        return this.start<DownloadResult>("downloader.download", `/v1/${platform}/download`, query, options, { platform });
+    }
+
+    /**
+     * Detects the platform of a media URL and normalizes short links and mobile URLs.
+     * @param url The media URL.
+     * @returns The detected platform and normalized URL.
+     * @throws ValidationError if the URL does not belong to a supported platform.
+     */
+    detect(url: string): DetectedPlatform {
+        const detected = detectPlatform(url);
+        if (!detected) {
+            const names = Object.values(PLATFORMS).map((p) => p.name).join(", ");
+            throw new ValidationError(`Unsupported URL "${url}". Supported platforms: ${names}`);
+        }
+        return detected;
+    }
+
+    /**
+     * Downloads media from any supported platform, detecting the platform from the URL.
+     * Unsupported URLs are rejected before any request is sent.
+     * @param url The media URL.
+     * @param format The desired output format ("mp3" or "mp4"), or download options. Defaults to "mp4".
+     * @param options Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to a handle for the download task.
+     * @throws ValidationError if the URL does not belong to a supported platform or a download option is invalid.
+     */
+    async auto(url: string, format: "mp3" | "mp4" | DownloadOptions = "mp4", options: CallOptions = {}): Promise<TaskHandle<DownloadResult>> {
+        const detected = this.detect(url);
+        return this.download(detected.platform, detected.url, format, options);
+    }
+
+    /**
+     * Downloads media all the way to a local file or stream, detecting the platform from the URL.
+     * Starts the task, waits for it, and streams the media without buffering it in memory.
+     * @param url The media URL.
+     * @param options Download options, destination, progress callback and per-call options.
+     * @returns A promise that resolves to the final path, size and content type.
+     * @throws ValidationError if the URL does not belong to a supported platform or a download option is invalid.
+     */
+    async fetch(url: string, options: MediaFetchOptions): Promise<MediaFetchResult>;
+    /**
+     * Generic downloader for other platforms that goes all the way to a local file or stream.
+     * Starts the task, waits for it, and streams the media without buffering it in memory.
+     * @param platform The platform identifier (e.g., "instagram", "facebook").
+     * @param url The media URL.
+     * @param options Download options, destination, progress callback and per-call options.
+     * @returns A promise that resolves to the final path, size and content type.
+     * @throws ValidationError if the platform is not supported or a download option is invalid.
      */
-    async download(platform: string, url: string, format: "mp3" | "mp4" = "mp4"): Promise<ApiResponse<TaskResult>> {
-        return this.sdk._request(`/v1/${platform}/download`, {
-            query: { url, format }
-        }) as Promise<ApiResponse<TaskResult>>;
+    async fetch(platform: Platform, url: string, options: MediaFetchOptions): Promise<MediaFetchResult>;
+    async fetch(
+        platformOrUrl: string,
+        urlOrOptions: string | MediaFetchOptions,
+        maybeOptions?: MediaFetchOptions
+    ): Promise<MediaFetchResult> {
+        if (typeof urlOrOptions === "string") {
+            return this.fetchMedia(
+                (media, call) => this.download(platformOrUrl as Platform, urlOrOptions, media, call),
+                maybeOptions as MediaFetchOptions
+            );
+        }
+
+        const detected = this.detect(platformOrUrl);
+        return this.fetchMedia((media, call) => this.download(detected.platform, detected.url, media, call), urlOrOptions);
+    }
+
+    /**
+     * Creates a queue that downloads many URLs with bounded concurrency and resumable state.
+     * Nothing is requested until `run()` is called.
+     * @param items Media URLs, or items with per-item platform, format and destination.
+     * @param options Concurrency, destination directory, state file, callbacks and per-call options.
+     * @returns The download queue.
+     */
+    queue(items: (string | DownloadQueueItem)[], options: DownloadQueueOptions = {}): DownloadQueue {
+        return new DownloadQueue(this.sdk, items, options);
+    }
+
+    /**
+     * Runs the full download flow: start the task, wait for it, then stream the media to its destination.
+     * @param start Function that starts the download task with the given download and per-call options.
+     * @param options Media fetch options.
+     * @returns A promise that resolves to the fetch result.
+     * @throws CludzError if the task completes without a download URL.
+     * @private
+     */
+    private async fetchMedia(
+        start: (media: DownloadOptions, call: CallOptions) => Promise<TaskHandle<DownloadResult>>,
+        options: MediaFetchOptions
+    ): Promise<MediaFetchResult> {
+        const { wait, to, onProgress, signal, retry, timeout, ...media } = options;
+        const call: CallOptions = { signal, retry, timeout };
+        const save = { to, onProgress, format: media.format, ...call };
+
+        const handle = await start(media, call);
+        const task = await handle.wait({ ...wait, signal: wait?.signal ?? call.signal });
+        return this._save(task, save);
+    }
+
+    /**
+     * Streams the media of a completed download task to a local file or stream.
+     * @param task The completed download task.
+     * @param options Output format, destination, progress callback and per-call options.
+     * @returns A promise that resolves to the fetch result.
+     * @throws CludzError if the task has no download URL or the media body is empty.
+     * @internal
+     */
+    async _save(
+        task: TaskState<DownloadResult>,
+        options: Pick<MediaFetchOptions, "to" | "onProgress" | "format" | keyof CallOptions>
+    ): Promise<MediaFetchResult> {
+        const { to, onProgress, format, ...call } = options;
+
+        const downloadUrl = task.data?.download_url;
+        if (!downloadUrl) {
+            throw new CludzError(`Task ${task.id} completed without a download URL`);
+        }
+
+        // Media bodies can be large, so the client-wide timeout does not apply unless set for this call.
+        const response = await this.sdk._fetch(downloadUrl, { signal: call.signal, retry: call.retry, timeout: call.timeout ?? 0 });
+        if (!response.body) {
+            throw new CludzError(`Empty response body from ${downloadUrl}`);
+        }
+
+        let path: string | undefined;
+        if (typeof to === "string") {
+            path = to;
+            if (await isDirectoryPath(to)) {
+                const { join } = await import("node:path");
+                const name = dispositionFileName(response.headers)
+                    || urlFileName(downloadUrl)
+                    || `${task.id}.${format ?? "mp4"}`;
+                path = join(to, name.replace(/[\\/]/g, "_"));
+            }
+        }
+
+        const size = await writeStream(response.body, path ?? to, {
+            total: contentLength(response.headers),
+            onProgress,
+            signal: call.signal,
+        });
+
+        return {
+            path,
+            size,
+            contentType: response.headers.get("content-type"),
+            downloadUrl,
+            task,
+        };
+    }
+
+    /**
+     * Starts a background task and wraps the response in a TaskHandle.
+     * The call's abort signal is also used by default when waiting on the handle,
+     * and the task is recorded in the journal when one is configured.
+     * @param origin The SDK call that starts the task, for the journal.
+     * @param endpoint The task-starting endpoint.
+     * @param query URL query parameters.
+     * @param options Per-call options.
+     * @param extra Additional parameters to record in the journal.
+     * @returns A promise that resolves to the task handle.
+     * @private
+     */
+    private async start<T>(
+        origin: string,
+        endpoint: string,
+        query: Record<string, any>,
+        options: CallOptions,
+        extra: Record<string, any> = {}
+    ): Promise<TaskHandle<T>> {
+        // Starting a task is not idempotent even though it is a GET: a retry after the server accepted
+        // the request would start the same download twice, so it is only retried when the caller asks.
+        const resp = await this.sdk._request(endpoint, { query, ...options, retry: options.retry ?? false }) as ApiResponse<TaskResult>;
+        await this.sdk.tasks.record(resp.data.taskId, origin, { ...extra, ...query });
+        return this.sdk.tasks.handle<T>(resp, { signal: options.signal, retry: options.retry });
+    }
+}
+
+/**
+ * Extracts the file name from the last segment of a URL path.
+ * @param url The URL.
+ * @returns The decoded file name, or the raw segment if it is not valid percent-encoding.
+ * @private
+ */
+function urlFileName(url: string): string {
+    const segment = new URL(url).pathname.split("/").pop() || "";
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
     }
 }
@@ -1,4 +1,9 @@
 import type { Cludz } from "../index";
+import { AbortError, CludzError, ValidationError } from "../errors";
+import { ImageResult, sniffImage } from "../binary";
+import type { ImageInfo } from "../binary";
+import { expandGlob, globBase, isGlob, listFiles } from "../files";
+import type { CallOptions } from "../types";
 
 /**
  * Supported image source types.
@@ -6,24 +11,162 @@ import type { Cludz } from "../index";
  */
 export type ImageSource = string | Buffer | Blob | File;
 
+/**
+ * Image formats supported by conversion.
+ */
+export type ImageFormat = "jpeg" | "jpg" | "png" | "webp" | "avif";
+
+/**
+ * A rectangular region of an image, in pixels.
+ */
+export interface CropRegion {
+    /** Offset from the left edge. */
+    left: number;
+    /** Offset from the top edge. */
+    top: number;
+    /** Width of the region. */
+    width: number;
+    /** Height of the region. */
+    height: number;
+}
+
+/**
+ * An image operation applied by `image.batch()`, e.g., `(source, options) => cludz.image.compress(source, 70, options)`.
+ */
+export type ImageOperation = (source: ImageSource, options: CallOptions) => Promise<ImageResult>;
+
+/**
+ * Inputs accepted by `image.batch()`: a directory, a glob pattern, or a list or async iterable of sources.
+ */
+export type ImageBatchInput = string | Iterable<ImageSource> | AsyncIterable<ImageSource>;
+
+/**
+ * Describes an input file, for naming its output.
+ */
+export interface ImageBatchFile {
+    /** The input file name without its extension. */
+    name: string;
+    /**
+     * The output file extension without the dot, taken from the format of the result (e.g., "webp" or "jpg").
+     * Falls back to the input's extension, or "png", if the format is not recognized.
+     */
+    ext: string;
+    /** The input's directory relative to the batch directory or glob base, or "" for other inputs. */
+    dir: string;
+    /** Position of the input in the batch, starting at 0. */
+    index: number;
+    /** The input source. */
+    source: ImageSource;
+}
+
+/**
+ * Options for `image.batch()`.
+ */
+export interface ImageBatchOptions extends CallOptions {
+    /** Directory the results are written to. */
+    outDir: string;
+    /**
+     * Output file name, relative to `outDir`: a template with `{name}`, `{ext}`, `{dir}` and `{index}`
+     * placeholders, or a function. Defaults to "{dir}/{name}.{ext}". Since the extension is only known
+     * once an input is processed, a function may be called once per image extension to look for existing outputs.
+     */
+    naming?: string | ((file: ImageBatchFile) => string);
+    /** Maximum number of images processed at once. Defaults to 4. */
+    concurrency?: number;
+    /** Whether a directory input includes its subdirectories. Defaults to false. */
+    recursive?: boolean;
+    /**
+     * Whether existing outputs are processed again. By default, inputs whose output already exists
+     * (and, for local files, is newer than the input) are skipped. An output is never written over its own input.
+     */
+    overwrite?: boolean;
+    /** Called whenever an input is processed, skipped or fails. */
+    onItem?: (item: ImageBatchItem) => void;
+}
+
+/**
+ * Outcome of a single input of `image.batch()`.
+ */
+export interface ImageBatchItem {
+    /** The input: its path, URL or file name, or a placeholder for in-memory data. */
+    input: string;
+    /** The output file path. */
+    output: string;
+    /** Whether the input was processed, skipped because its output is up to date, or failed. */
+    status: "processed" | "skipped" | "failed";
+    /** Size of the input in bytes, if known. */
+    inputSize?: number;
+    /** Size of the output in bytes. */
+    outputSize?: number;
+    /** Why the input failed. */
+    error?: Error;
+}
+
+/**
+ * Summary of `image.batch()`.
+ */
+export interface ImageBatchResult {
+    /** Every input, in the order it was read. */
+    items: ImageBatchItem[];
+    /** Number of inputs processed. */
+    processed: number;
+    /** Number of inputs skipped because their output was up to date. */
+    skipped: number;
+    /** Number of inputs that failed. */
+    failed: number;
+    /** Total size of the processed inputs whose size is known, in bytes. */
+    inputBytes: number;
+    /** Total size of their outputs, in bytes. */
+    outputBytes: number;
+    /** Bytes saved across those inputs (negative if outputs are larger). */
+    saved: number;
+}
+
+/**
+ * An image source resolved for upload.
+ * @private
+ */
+interface ResolvedImage {
+    /** The image data, or the URL of a remote image. */
+    value: Blob | string;
+    /** File name for the form part. */
+    name?: string;
+    /** Format and dimensions read from the image header, for local data. */
+    info?: ImageInfo;
+}
+
+/** File extensions picked up from directory inputs. */
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|webp|avif|gif|bmp|tiff?|heic|heif)$/i;
+
+/** Extensions a batch output may have, checked when looking for an existing output. */
+const OUTPUT_EXTENSIONS = ["png", "jpg", "webp", "avif", "gif"];
+
 /**
  * Module for image processing and manipulation.
  * Supports environment-agnostic file resolution (Bun and Node.js).
+ * Every operation is a POST request, so it is only retried when `retry` is set for the call.
  */
 export class Image {
     /** @internal */
     constructor(private sdk: Cludz) {}
 
     /**
-     * Resolves various image sources into a Blob or URL string.
+     * Resolves various image sources into a Blob or URL string. Local data is checked against
+     * the upload size limit and sniffed, so it is sent with its real content type and extension.
+     * Data in a format that is not recognized (e.g., BMP, TIFF or HEIC) is sent as it is.
      * @param source The image source to resolve.
-     * @returns A promise that resolves to a Blob or a URL string.
+     * @returns A promise that resolves to the image data or URL, with its file name and header information.
+     * @throws ValidationError if the source type is invalid or the image is too large.
+     * @throws CludzError if a local path cannot be read.
      * @private
      */
-    private async resolveImage(source: ImageSource): Promise<Blob | string> {
+    private async resolveImage(source: ImageSource): Promise<ResolvedImage> {
+        let blob: Blob;
+        let name: string | undefined;
+
         if (typeof source === "string") {
             if (source.startsWith("http://") || source.startsWith("https://")) {
-                return source;
+                return { value: source };
             } else {
                 // Assume local path - dynamic import to stay environment-agnostic where possible
                 try {
@@ -31,27 +174,228 @@ export class Image {
                     // @ts-ignore
                     if (typeof Bun !== "undefined") {
                         // @ts-ignore
-                        return Bun.file(source).blob();
+                        blob = await Bun.file(source).blob();
+                    } else {
+                        // Fallback to Node.js
+                        const { readFile } = await import("node:fs/promises");
+                        const buffer = await readFile(source);
+                        blob = new Blob([buffer]);
                     }
-                    // Fallback to Node.js
-                    const { readFile } = await import("node:fs/promises");
-                    const buffer = await readFile(source);
-                    return new Blob([buffer]);
                 } catch (error: any) {
-                    throw new Error(`Failed to read local image path: ${error.message}`);
+                    throw new CludzError(`Failed to read local image path: ${error.message}`, { cause: error });
                 }
+                name = source.split(/[\\/]/).pop();
+            }
+        } else if (source instanceof Blob || (typeof File !== "undefined" && source instanceof File)) {
+            blob = source;
+            if (typeof File !== "undefined" && source instanceof File) name = source.name;
+        } else if (Buffer.isBuffer(source)) {
+            blob = new Blob([source]);
+        } else {
+            throw new ValidationError("Invalid image source type. Supported: URL string, local path string, Buffer, or Blob/File.");
+        }
+
+        const limit = this.sdk.maxUploadSize;
+        if (limit !== undefined && blob.size > limit) {
+            throw new ValidationError(`Image is ${blob.size} bytes, which exceeds the upload limit of ${limit} bytes`);
+        }
+
+        const info = sniffImage(new Uint8Array(await blob.slice(0, 65536).arrayBuffer()));
+        if (!info) {
+            // The server may still support the format, but its size is unknown, so crop bounds are not checked.
+            const value = blob.type ? blob : new Blob([blob], { type: "application/octet-stream" });
+            return { value, name: name || "image" };
+        }
+
+        const extension = info.format === "jpeg" ? "jpg" : info.format;
+        const stem = name?.replace(/\.[^.]*$/, "") || "image";
+        const value = blob.type === info.mimeType ? blob : new Blob([blob], { type: info.mimeType });
+
+        return { value, name: `${stem}.${extension}`, info };
+    }
+
+    /**
+     * Builds the multipart form shared by every image operation, with the image as its first part.
+     * @param source The image source.
+     * @returns A promise that resolves to the form and, for local data, the image's header information.
+     * @throws ValidationError if the image is invalid (see `resolveImage`).
+     * @private
+     */
+    private async imageForm(source: ImageSource): Promise<{ form: FormData; info?: ImageInfo }> {
+        const image = await this.resolveImage(source);
+        const form = new FormData();
+
+        if (typeof image.value === "string") {
+            form.append("image", image.value);
+        } else {
+            form.append("image", image.value, image.name);
+        }
+
+        return { form, info: image.info };
+    }
+
+    /**
+     * Starts a pipeline of image operations. Each step's output is fed into the next in memory,
+     * so the source is read only once and nothing is written to disk. Every step is still its own
+     * request, which uploads the previous step's output.
+     * @param source The image source (URL, path, Buffer, Blob, or File).
+     * @returns The image pipeline. Nothing is requested until `run()` is called.
+     * @example
+     * const result = await cludz.image.pipeline("./photo.png").crop({ left: 0, top: 0, width: 800, height: 600 }).convert("webp").compress(70).run();
+     */
+    pipeline(source: ImageSource): ImagePipeline {
+        return new ImagePipeline(this, source);
+    }
+
+    /**
+     * Applies an image operation to many inputs and writes the results to a directory.
+     * A failing input does not stop the others.
+     * @param inputs A directory, a glob pattern (e.g., "./assets/**\/*.png"), or a list or async iterable of sources.
+     * @param operation The operation to apply to each input.
+     * @param options Output directory, naming, concurrency and per-call options.
+     * @returns A promise that resolves to per-input outcomes and byte savings. An input whose output
+     * would replace the input file itself fails with a ValidationError.
+     * @throws ValidationError if a directory or file input does not exist.
+     * @throws AbortError if the signal aborts.
+     */
+    async batch(inputs: ImageBatchInput, operation: ImageOperation, options: ImageBatchOptions): Promise<ImageBatchResult> {
+        const { outDir, naming = "{dir}/{name}.{ext}", concurrency = 4, recursive, overwrite, onItem, ...call } = options;
+        const { stat } = await import("node:fs/promises");
+        const { basename, dirname, extname, join, relative, resolve } = await import("node:path");
+
+        const source = this.batchSources(inputs, recursive);
+        const items: ImageBatchItem[] = [];
+        let index = 0;
+
+        const worker = async () => {
+            for (let next = await source.next(); !next.done && !call.signal?.aborted; next = await source.next()) {
+                const { value: input, base } = next.value;
+                const position = index++;
+
+                let label = `image-${position + 1}`;
+                if (typeof input === "string") label = input;
+                else if (typeof File !== "undefined" && input instanceof File) label = input.name;
+
+                const local = typeof input === "string" && !/^https?:\/\//.test(input);
+                const fileName = basename(typeof input === "string" ? input.split("?")[0] as string : label);
+                const ext = extname(fileName);
+                const file: ImageBatchFile = {
+                    name: ext ? fileName.slice(0, -ext.length) : fileName,
+                    ext: ext.slice(1) || "png",
+                    dir: local && base ? relative(base, dirname(input as string)) : "",
+                    index: position,
+                    source: input,
+                };
+                const outputPath = (ext: string) => {
+                    const named = { ...file, ext };
+                    return join(outDir, typeof naming === "function"
+                        ? naming(named)
+                        : naming.replace(/\{(name|ext|dir|index)\}/g, (_, key: keyof ImageBatchFile) => String(named[key])));
+                };
+                const inputPath = local ? resolve(input as string) : undefined;
+
+                const item: ImageBatchItem = { input: label, output: outputPath(file.ext), status: "processed" };
+                items[position] = item;
+
+                try {
+                    const inputStat = local ? await stat(input as string) : undefined;
+                    item.inputSize = inputStat?.size ?? (Buffer.isBuffer(input) ? input.length : input instanceof Blob ? input.size : undefined);
+
+                    if (!overwrite) {
+                        const candidates = new Set([file.ext, ...OUTPUT_EXTENSIONS].map(outputPath));
+                        for (const candidate of candidates) {
+                            if (resolve(candidate) === inputPath) continue;
+                            const existing = await stat(candidate).catch(() => undefined);
+                            if (existing && (!inputStat || existing.mtimeMs >= inputStat.mtimeMs)) {
+                                item.status = "skipped";
+                                item.output = candidate;
+                                item.outputSize = existing.size;
+                                break;
+                            }
+                        }
+                    }
+
+                    if (item.status !== "skipped") {
+                        const result = await operation(input, call);
+                        const format = result.format === "jpeg" ? "jpg" : result.format;
+                        item.output = outputPath(format ?? file.ext);
+                        if (resolve(item.output) === inputPath) {
+                            throw new ValidationError(`Output ${item.output} would overwrite its input. Use a different outDir or naming`);
+                        }
+                        await result.saveTo(item.output);
+                        item.outputSize = result.size;
+                    }
+                } catch (error: any) {
+                    if (call.signal?.aborted) break;
+                    item.status = "failed";
+                    item.error = error instanceof Error ? error : new CludzError(String(error));
+                }
+
+                onItem?.({ ...item });
             }
+        };
+
+        await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+
+        if (call.signal?.aborted) {
+            throw new AbortError(undefined, { cause: call.signal.reason });
         }
-        
-        if (source instanceof Blob || (typeof File !== "undefined" && source instanceof File)) {
-            return source;
+
+        const done = items.filter((item) => item.status === "processed" && item.inputSize !== undefined);
+        const inputBytes = done.reduce((sum, item) => sum + (item.inputSize as number), 0);
+        const outputBytes = done.reduce((sum, item) => sum + (item.outputSize ?? 0), 0);
+
+        return {
+            items,
+            processed: items.filter((item) => item.status === "processed").length,
+            skipped: items.filter((item) => item.status === "skipped").length,
+            failed: items.filter((item) => item.status === "failed").length,
+            inputBytes,
+            outputBytes,
+            saved: inputBytes - outputBytes,
+        };
+    }
+
+    /**
+     * Enumerates the sources of a batch. Directory and glob inputs also report their base
+     * directory, so outputs can mirror the input layout.
+     * @param inputs The batch inputs.
+     * @param recursive Whether a directory input includes its subdirectories.
+     * @returns An async generator of sources.
+     * @throws ValidationError if a directory or file input does not exist.
+     * @private
+     */
+    private async *batchSources(inputs: ImageBatchInput, recursive?: boolean): AsyncGenerator<{ value: ImageSource; base?: string }, void, undefined> {
+        if (typeof inputs !== "string") {
+            for await (const value of inputs) yield { value };
+            return;
+        }
+
+        if (/^https?:\/\//.test(inputs)) {
+            yield { value: inputs };
+            return;
         }
 
-        if (Buffer.isBuffer(source)) {
-            return new Blob([source]);
+        if (isGlob(inputs)) {
+            const base = globBase(inputs);
+            for await (const path of expandGlob(inputs)) yield { value: path, base };
+            return;
         }
 
-        throw new Error("Invalid image source type. Supported: URL string, local path string, Buffer, or Blob/File.");
+        const { stat } = await import("node:fs/promises");
+        const info = await stat(inputs).catch(() => undefined);
+        if (!info) {
+            throw new ValidationError(`Image batch input not found: ${inputs}`);
+        }
+
+        if (!info.isDirectory()) {
+            yield { value: inputs };
+            return;
+        }
+
+        for await (const path of listFiles(inputs, recursive)) {
+            if (IMAGE_EXTENSIONS.test(path)) yield { value: path, base: inputs };
+        }
     }
 
     /**
@@ -59,89 +403,78 @@ export class Image {
      * @param source The image source (URL, path, Buffer, Blob, or File).
      * @param top The text to display at the top of the meme.
      * @param bottom The text to display at the bottom of the meme.
-     * @returns A promise that resolves to a Response object containing the generated image.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to the generated image.
      */
-    async meme(source: ImageSource, top?: string, bottom?: string): Promise<Response> {
-        const image = await this.resolveImage(source);
-        const formData = new FormData();
-        
-        if (typeof image === "string") {
-            formData.append("image", image);
-        } else {
-            formData.append("image", image, "image.png");
-        }
+    async meme(source: ImageSource, top?: string, bottom?: string, options: CallOptions = {}): Promise<ImageResult> {
+        const { form: formData } = await this.imageForm(source);
 
         if (top) formData.append("top", top);
         if (bottom) formData.append("bottom", bottom);
 
-        return this.sdk._request("/v1/image/meme", {
-            method: "POST",
-            body: formData
-        }) as Promise<Response>;
+        return this.process("/v1/image/meme", formData, options);
     }
 
     /**
      * Compresses an image to reduce its file size.
      * @param source The image source (URL, path, Buffer, Blob, or File).
      * @param quality Compression quality (1-100). Defaults to 80.
-     * @returns A promise that resolves to a Response object containing the compressed image.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to the compressed image.
+     * @throws ValidationError if the quality is out of range or the image is invalid.
      */
-    async compress(source: ImageSource, quality: number = 80): Promise<Response> {
-        const image = await this.resolveImage(source);
-        const formData = new FormData();
-
-        if (typeof image === "string") {
-            formData.append("image", image);
-        } else {
-            formData.append("image", image, "image.png");
+    async compress(source: ImageSource, quality: number = 80, options: CallOptions = {}): Promise<ImageResult> {
+        if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+            throw new ValidationError(`Invalid quality ${quality}. Expected an integer from 1 to 100`);
         }
 
+        const { form: formData } = await this.imageForm(source);
+
         formData.append("quality", quality.toString());
 
-        return this.sdk._request("/v1/image/compress", {
-            method: "POST",
-            body: formData
-        }) as Promise<Response>;
+        return this.process("/v1/image/compress", formData, options);
     }
 
     /**
      * Converts an image to a different format.
      * @param source The image source (URL, path, Buffer, Blob, or File).
      * @param format The target image format.
-     * @returns A promise that resolves to a Response object containing the converted image.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to the converted image.
      */
-    async convert(source: ImageSource, format: "jpeg" | "jpg" | "png" | "webp" | "avif"): Promise<Response> {
-        const image = await this.resolveImage(source);
-        const formData = new FormData();
-
-        if (typeof image === "string") {
-            formData.append("image", image);
-        } else {
-            formData.append("image", image, "image.png");
-        }
+    async convert(source: ImageSource, format: ImageFormat, options: CallOptions = {}): Promise<ImageResult> {
+        const { form: formData } = await this.imageForm(source);
 
         formData.append("format", format);
 
-        return this.sdk._request("/v1/image/convert", {
-            method: "POST",
-            body: formData
-        }) as Promise<Response>;
+        return this.process("/v1/image/convert", formData, options);
     }
 
     /**
      * Crops an image to specific dimensions.
      * @param source The image source (URL, path, Buffer, Blob, or File).
      * @param options The crop dimensions (left, top, width, height).
-     * @returns A promise that resolves to a Response object containing the cropped image.
+     * @param callOptions Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to the cropped image.
+     * @throws ValidationError if the region is invalid, does not fit within a local image, or the image is invalid.
      */
-    async crop(source: ImageSource, options: { left: number; top: number; width: number; height: number }): Promise<Response> {
-        const image = await this.resolveImage(source);
-        const formData = new FormData();
+    async crop(source: ImageSource, options: CropRegion, callOptions: CallOptions = {}): Promise<ImageResult> {
+        for (const key of ["left", "top", "width", "height"] as const) {
+            const value = options[key];
+            const min = key === "width" || key === "height" ? 1 : 0;
+            if (!Number.isInteger(value) || value < min) {
+                throw new ValidationError(`Invalid crop ${key} ${value}. Expected an integer of at least ${min}`);
+            }
+        }
 
-        if (typeof image === "string") {
-            formData.append("image", image);
-        } else {
-            formData.append("image", image, "image.png");
+        const { form: formData, info } = await this.imageForm(source);
+
+        if (info?.width !== undefined && info.height !== undefined
+            && (options.left + options.width > info.width || options.top + options.height > info.height)) {
+            throw new ValidationError(
+                `Crop region ${options.width}x${options.height} at (${options.left}, ${options.top}) `
+                + `does not fit within the ${info.width}x${info.height} image`
+            );
         }
 
         formData.append("left", options.left.toString());
@@ -149,9 +482,126 @@ export class Image {
         formData.append("width", options.width.toString());
         formData.append("height", options.height.toString());
 
-        return this.sdk._request("/v1/image/crop", {
+        return this.process("/v1/image/crop", formData, callOptions);
+    }
+
+    /**
+     * Sends an image operation and reads the resulting image.
+     * @param endpoint The operation endpoint.
+     * @param form The multipart form, built with `imageForm`.
+     * @param options Per-call options.
+     * @returns A promise that resolves to the resulting image.
+     * @private
+     */
+    private async process(endpoint: string, form: FormData, options: CallOptions): Promise<ImageResult> {
+        return ImageResult.from(await this.sdk._request(endpoint, {
             method: "POST",
-            body: formData
-        }) as Promise<Response>;
+            body: form,
+            ...options
+        }));
+    }
+}
+
+/**
+ * A step of an image pipeline.
+ * @private
+ */
+interface PipelineStep {
+    name: string;
+    apply: (image: ImageSource, options: CallOptions) => Promise<ImageResult>;
+}
+
+/**
+ * Chains image operations, feeding each step's output into the next without touching disk.
+ * Create one with `cludz.image.pipeline()`.
+ */
+export class ImagePipeline {
+    private readonly steps: PipelineStep[] = [];
+
+    /** @internal */
+    constructor(private image: Image, private source: ImageSource) {}
+
+    /**
+     * Adds a crop step.
+     * @param region The region to keep.
+     * @returns The pipeline, for chaining.
+     * @throws ValidationError if the pipeline already ends with a compress step.
+     */
+    crop(region: CropRegion): this {
+        return this.add("crop", (image, options) => this.image.crop(image, region, options));
+    }
+
+    /**
+     * Adds a format conversion step.
+     * @param format The target image format.
+     * @returns The pipeline, for chaining.
+     * @throws ValidationError if the pipeline already converts, or already ends with a compress step.
+     */
+    convert(format: ImageFormat): this {
+        if (this.steps.some((step) => step.name === "convert")) {
+            throw new ValidationError("An image pipeline can only convert once");
+        }
+        return this.add("convert", (image, options) => this.image.convert(image, format, options));
+    }
+
+    /**
+     * Adds a compression step. Compression must be the last step, since any later
+     * operation would re-encode the image and discard it.
+     * @param quality Compression quality (1-100). Defaults to 80.
+     * @returns The pipeline, for chaining.
+     * @throws ValidationError if the pipeline already ends with a compress step.
+     */
+    compress(quality: number = 80): this {
+        return this.add("compress", (image, options) => this.image.compress(image, quality, options));
+    }
+
+    /**
+     * Adds a meme text step.
+     * @param top The text to display at the top of the image.
+     * @param bottom The text to display at the bottom of the image.
+     * @returns The pipeline, for chaining.
+     * @throws ValidationError if the pipeline already ends with a compress step.
+     */
+    meme(top?: string, bottom?: string): this {
+        return this.add("meme", (image, options) => this.image.meme(image, top, bottom, options));
+    }
+
+    /**
+     * Runs every step in order, sending one request per step.
+     * @param options Per-call options (signal, timeout, retry) applied to each step.
+     * @returns A promise that resolves to the final image.
+     * @throws ValidationError if the pipeline has no steps.
+     * @throws CludzError (or a subclass) if any step fails.
+     */
+    async run(options: CallOptions = {}): Promise<ImageResult> {
+        if (this.steps.length === 0) {
+            throw new ValidationError("The image pipeline has no steps");
+        }
+
+        let current: ImageSource = this.source;
+        let result: ImageResult | undefined;
+
+        for (const step of this.steps) {
+            result = await step.apply(current, options);
+            current = result.toBlob();
+        }
+
+        return result as ImageResult;
+    }
+
+    /**
+     * Appends a step after checking that it may follow the existing ones.
+     * @param name The step name.
+     * @param apply Function that applies the step to an image.
+     * @returns The pipeline, for chaining.
+     * @throws ValidationError if the pipeline already ends with a compress step.
+     * @private
+     */
+    private add(name: string, apply: PipelineStep["apply"]): this {
+        if (this.steps.at(-1)?.name === "compress") {
+            throw new ValidationError(`Cannot add "${name}" after "compress": compression must be the last step`);
+        }
+        this.steps.push({ name, apply });
+        return this;
     }
 }
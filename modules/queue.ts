@@ -0,0 +1,309 @@
+import type { Cludz } from "../index";
+import { AbortError, CludzError, NotFoundError, RateLimitError } from "../errors";
+import { sleep } from "../http";
+import { readJsonFile, writeJsonFile } from "../journal";
+import type {
+    CallOptions,
+    DownloadResult,
+    DownloadQueueItem,
+    DownloadQueueOptions,
+    DownloadQueueProgress,
+    DownloadQueueItemResult,
+    DownloadQueueReport,
+    TaskState,
+    WaitOptions,
+} from "../types";
+
+/** How many times an item is put back in the queue after hitting the API rate limit. */
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+/** How long to pause the queue after a rate limit error that does not say when to retry. */
+const DEFAULT_RATE_LIMIT_PAUSE = 5000;
+
+/**
+ * Persisted queue state, keyed by item.
+ * @private
+ */
+interface QueueState {
+    version: 1;
+    items: Record<string, Omit<DownloadQueueItemResult, "resumed">>;
+}
+
+/**
+ * Downloads a list of media URLs with bounded concurrency, recording progress
+ * so an interrupted run can resume without requesting finished items again.
+ * Create one with `cludz.downloader.queue()`.
+ */
+export class DownloadQueue {
+    private readonly items: DownloadQueueItemResult[] = [];
+    private readonly targets = new Map<string, string | undefined>();
+    private running?: Promise<DownloadQueueReport>;
+    private writes: Promise<unknown> = Promise.resolve();
+    private pausedUntil = 0;
+    private active = 0;
+
+    /** @internal */
+    constructor(private sdk: Cludz, items: (string | DownloadQueueItem)[], private options: DownloadQueueOptions = {}) {
+        this.add(items);
+    }
+
+    /**
+     * Adds items to the queue. Items with the same key as an existing item are ignored.
+     * @param items Media URLs, or items with per-item platform, format and destination.
+     * @returns The queue, for chaining.
+     */
+    add(items: (string | DownloadQueueItem)[]): this {
+        for (const input of items) {
+            const item = typeof input === "string" ? { url: input } : input;
+            const format = item.format ?? this.options.format ?? "mp4";
+            const key = item.key ?? `${item.platform ?? "auto"}:${item.url}:${format}`;
+            if (this.targets.has(key)) continue;
+
+            this.targets.set(key, item.to ?? this.options.to);
+            this.items.push({ key, url: item.url, platform: item.platform, format, status: "pending", attempts: 0 });
+        }
+        return this;
+    }
+
+    /**
+     * Processes every unfinished item. Items completed in a previous run (and failed ones,
+     * unless `retryFailed` is set) are restored from the state file without any request.
+     * Calling `run()` again while a run is in progress returns the same promise.
+     * @returns A promise that resolves to a summary of the run.
+     * @throws AbortError if the signal aborts. Progress made so far is kept in the state file.
+     * @throws CludzError if the state file cannot be read. Write failures go to `onStateError` instead.
+     */
+    run(): Promise<DownloadQueueReport> {
+        if (!this.running) {
+            this.running = this.process().finally(() => {
+                this.running = undefined;
+            });
+        }
+        return this.running;
+    }
+
+    /**
+     * Builds a summary of the queue's current state.
+     * @param duration How long the run took in milliseconds.
+     * @returns The queue report.
+     */
+    report(duration: number = 0): DownloadQueueReport {
+        const reasons: Record<string, number> = {};
+        for (const item of this.items) {
+            if (item.status === "failed") {
+                const reason = item.errorName ?? "Error";
+                reasons[reason] = (reasons[reason] ?? 0) + 1;
+            }
+        }
+
+        const progress = this.progress();
+        return {
+            total: progress.total,
+            completed: progress.completed,
+            failed: progress.failed,
+            pending: progress.total - progress.completed - progress.failed,
+            resumed: this.items.filter((item) => item.resumed).length,
+            reasons,
+            items: this.items.map((item) => ({ ...item })),
+            duration,
+        };
+    }
+
+    /**
+     * Runs the workers over every unfinished item.
+     * @returns A promise that resolves to the run report.
+     * @private
+     */
+    private async process(): Promise<DownloadQueueReport> {
+        const startedAt = Date.now();
+        const { signal } = this.options;
+        await this.restore();
+
+        const work = this.items.filter((item) =>
+            item.status !== "completed" && !(item.status === "failed" && !this.options.retryFailed)
+        );
+        const rateLimited = new Map<string, number>();
+
+        const worker = async () => {
+            let item: DownloadQueueItemResult | undefined;
+            while (!signal?.aborted && (item = work.shift())) {
+                if (this.pausedUntil > Date.now()) {
+                    await sleep(this.pausedUntil - Date.now(), signal).catch(() => {});
+                    if (signal?.aborted) break;
+                }
+
+                const error = await this.download(item);
+
+                if (error instanceof RateLimitError && (rateLimited.get(item.key) ?? 0) < MAX_RATE_LIMIT_RETRIES) {
+                    rateLimited.set(item.key, (rateLimited.get(item.key) ?? 0) + 1);
+                    const pause = error.retryAfter
+                        ?? (error.rateLimit?.resetInSeconds !== undefined ? error.rateLimit.resetInSeconds * 1000 : DEFAULT_RATE_LIMIT_PAUSE);
+                    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pause);
+                    item.status = item.taskId ? "started" : "pending";
+                    item.attempts--;
+                    work.unshift(item);
+                    continue;
+                }
+
+                if (error) {
+                    item.status = "failed";
+                    item.error = error.message;
+                    item.errorName = error.name;
+                }
+
+                await this.persist();
+                if (item.status === "completed" || item.status === "failed") {
+                    this.options.onItem?.({ ...item });
+                }
+                this.options.onProgress?.(this.progress());
+            }
+        };
+
+        const concurrency = Math.max(1, this.options.concurrency ?? 3);
+        await Promise.all(Array.from({ length: Math.min(concurrency, work.length) }, worker));
+        await this.writes;
+
+        if (signal?.aborted) {
+            throw new AbortError(undefined, { cause: signal.reason });
+        }
+
+        return this.report(Date.now() - startedAt);
+    }
+
+    /**
+     * Downloads a single item: waits on its existing task if it has one, otherwise starts a new
+     * task, then writes the media to the item's destination if there is one.
+     * @param item The item to process. It is updated in place.
+     * @returns A promise that resolves to the error that made the item fail, or undefined on success or abort.
+     * @private
+     */
+    private async download(item: DownloadQueueItemResult): Promise<Error | undefined> {
+        const { signal, retry, timeout } = this.options;
+        const call: CallOptions = { signal, retry, timeout };
+        const wait: WaitOptions = { ...this.options.wait, signal: this.options.wait?.signal ?? signal };
+        const downloader = this.sdk.downloader;
+
+        item.attempts++;
+        item.resumed = false;
+        if (item.status === "failed") item.status = item.taskId ? "started" : "pending";
+        this.active++;
+        this.options.onProgress?.(this.progress());
+
+        try {
+            let task: TaskState<DownloadResult> | undefined;
+
+            // A task that was started before, and did not fail, may still finish or already be done.
+            if (item.taskId && item.errorName !== "TaskFailedError") {
+                try {
+                    task = await this.sdk.tasks.waitFor<DownloadResult>(item.taskId, wait);
+                } catch (error) {
+                    if (!(error instanceof NotFoundError)) throw error;
+                    item.taskId = undefined;
+                }
+            }
+
+            if (!task) {
+                const detected = item.platform ? { platform: item.platform, url: item.url } : downloader.detect(item.url);
+                item.platform = detected.platform;
+
+                const handle = await downloader.download(detected.platform, detected.url, item.format, call);
+                item.taskId = handle.id;
+                item.status = "started";
+                item.error = item.errorName = undefined;
+                await this.persist();
+
+                task = await handle.wait(wait);
+            }
+
+            item.downloadUrl = task.data?.download_url;
+
+            const to = this.targets.get(item.key);
+            if (to) {
+                const saved = await downloader._save(task, { to, format: item.format, ...call });
+                item.path = saved.path;
+                item.size = saved.size;
+            }
+
+            item.status = "completed";
+            item.error = item.errorName = undefined;
+            return undefined;
+        } catch (error: any) {
+            if (signal?.aborted) {
+                item.status = item.taskId ? "started" : "pending";
+                return undefined;
+            }
+            return error instanceof Error ? error : new CludzError(String(error));
+        } finally {
+            this.active--;
+        }
+    }
+
+    /**
+     * Loads the state file and applies it to items with a matching key.
+     * @private
+     */
+    private async restore(): Promise<void> {
+        if (!this.options.state) return;
+
+        const state = await readJsonFile<QueueState>(this.options.state, "download queue state");
+        if (!state?.items) return;
+
+        for (const item of this.items) {
+            const saved = state.items[item.key];
+            if (!saved) continue;
+
+            Object.assign(item, saved, { key: item.key, url: item.url, format: item.format });
+            item.resumed = item.status === "completed" || item.status === "failed";
+        }
+    }
+
+    /**
+     * Writes the current state of every item to the state file, after any write in progress.
+     * A write failure is reported through `onStateError` and never thrown, so it cannot fail
+     * an item or stop a worker while the others keep going.
+     * @returns A promise that resolves when the state is written or the write has failed.
+     * @private
+     */
+    private persist(): Promise<void> {
+        const path = this.options.state;
+        if (!path) return Promise.resolve();
+
+        const next = this.writes.then(() => {
+            const state: QueueState = { version: 1, items: {} };
+            for (const { resumed, ...item } of this.items) {
+                state.items[item.key] = item;
+            }
+            return writeJsonFile(path, state, "download queue state");
+        }).catch((cause) => {
+            const error = cause instanceof Error ? cause : new CludzError(`Failed to write download queue state: ${cause}`, { cause });
+            try {
+                this.options.onStateError?.(error);
+            } catch {
+                // A failing error callback must not fail the run it reports on.
+            }
+        });
+
+        this.writes = next;
+        return next;
+    }
+
+    /**
+     * Computes aggregate progress across the queue.
+     * @returns The current progress.
+     * @private
+     */
+    private progress(): DownloadQueueProgress {
+        const total = this.items.length;
+        const completed = this.items.filter((item) => item.status === "completed").length;
+        const failed = this.items.filter((item) => item.status === "failed").length;
+
+        return {
+            total,
+            completed,
+            failed,
+            active: this.active,
+            pending: total - completed - failed - this.active,
+            percent: total ? ((completed + failed) / total) * 100 : 100,
+        };
+    }
+}
@@ -1,4 +1,52 @@
-import type { StorageOptions, FileInfo } from "../types";
+import { AbortError, ChecksumMismatchError, CludzError, NotFoundError, ValidationError } from "../errors";
+import { send, resolveRetryPolicy, defaultFetch } from "../http";
+import { checkIntegrity, hashStream, hashingStream, integrityStream, parseChecksum } from "../checksum";
+import type { ChecksumAlgorithm } from "../checksum";
+import { pathMatcher } from "../files";
+import { readJsonFile, writeJsonFile } from "../journal";
+import { StorageWatcher } from "./watcher";
+import {
+    contentLength,
+    dispositionFileName,
+    isDirectoryPath,
+    multipartStream,
+    progressStream,
+    readFileStream,
+    toWebStream,
+    writeStream,
+} from "../stream";
+import type {
+    StorageOptions,
+    FileInfo,
+    CallOptions,
+    RetryOptions,
+    FetchLike,
+    Middleware,
+    StorageTransferOptions,
+    StorageUploadStreamOptions,
+    StorageSyncOptions,
+    StorageSyncItem,
+    StorageSyncReport,
+    StoragePathFilter,
+    StorageEntry,
+    StorageWalkOptions,
+    StorageFindOptions,
+    StorageUsage,
+    StorageStats,
+    StorageMkdirOptions,
+    StorageRmOptions,
+    StorageReadFileOptions,
+    StorageWriteFileOptions,
+    StorageCopyOptions,
+    StorageCopyItem,
+    StorageCopyReport,
+    StorageVerifyOptions,
+    StorageVerifyFileOptions,
+    StorageVerifyTreeOptions,
+    StorageVerifyResult,
+    StorageVerifyReport,
+    StorageWatchOptions,
+} from "../types";
 
 /**
  * Supported storage source types.
@@ -6,6 +54,56 @@ import type { StorageOptions, FileInfo } from "../types";
  */
 export type StorageSource = string | Buffer | Blob | File;
 
+/**
+ * Supported sources for streamed uploads.
+ * Can be a local file path string, a web ReadableStream, or a Node.js readable stream.
+ */
+export type StorageStreamSource = string | ReadableStream<Uint8Array> | NodeJS.ReadableStream;
+
+/** Modification times closer than this are considered equal, since file systems store them at different precisions. */
+const MTIME_TOLERANCE = 2000;
+
+/**
+ * A file or directory seen by `sync()` on either side.
+ * @private
+ */
+interface SyncEntry {
+    /** Whether the entry is a directory. */
+    isDirectory: boolean;
+    /** Size in bytes. */
+    size: number;
+    /** Last modification time in milliseconds, if known. */
+    modified?: number;
+    /** The checksum reported by the server, for remote entries. */
+    checksum?: string;
+}
+
+/**
+ * A file as it was on both sides after `sync()` last transferred it or found it unchanged.
+ * @private
+ */
+interface SyncRecord {
+    /** Size in bytes. */
+    size: number;
+    /** Local modification time in milliseconds. */
+    local?: number;
+    /** Remote modification time in milliseconds. */
+    remote?: number;
+    /** The checksum reported by the server. */
+    checksum?: string;
+}
+
+/**
+ * Persisted `sync()` state, keyed by relative path.
+ * @private
+ */
+interface SyncState {
+    version: 1;
+    local: string;
+    remote: string;
+    files: Record<string, SyncRecord>;
+}
+
 /**
  * Standalone module for interacting with Cludz Storage containers.
  */
@@ -16,20 +114,38 @@ export class Storage {
     public readonly id: string;
     /** The access token for this storage container. */
     public readonly token: string;
+    /** Default retry policy applied to every storage request. */
+    public readonly retry?: RetryOptions | false;
+    /** Request/response middleware applied to every storage request, in order. */
+    public readonly middleware: Middleware[];
+    /** Default timeout for each HTTP request in milliseconds. */
+    public readonly timeout?: number;
+    /** Whether uploads and downloads check content against the stored checksum by default. */
+    public readonly verifyTransfers: boolean;
+    /** Algorithm used to hash streamed uploads for verification. */
+    public readonly checksumAlgorithm: ChecksumAlgorithm;
+    /** The fetch implementation used to send requests. */
+    private readonly fetch: FetchLike;
 
     /**
      * Initializes a new instance of the Storage client.
      * @param options Configuration options for the storage container.
-     * @throws Error if any required option (api, id, token) is missing.
+     * @throws ValidationError if any required option (api, id, token) is missing.
      */
     constructor(options: StorageOptions) {
-        if (!options.api) throw new Error("API URL is required");
-        if (!options.id) throw new Error("Storage ID is required");
-        if (!options.token) throw new Error("Token is required");
+        if (!options.api) throw new ValidationError("API URL is required");
+        if (!options.id) throw new ValidationError("Storage ID is required");
+        if (!options.token) throw new ValidationError("Token is required");
 
         this.api = `${options.api.replace(/\/$/, "")}/storage/${options.id}`;
         this.id = options.id;
         this.token = options.token;
+        this.retry = options.retry;
+        this.middleware = [...(options.middleware ?? [])];
+        this.fetch = options.fetch ?? defaultFetch;
+        this.timeout = options.timeout;
+        this.verifyTransfers = options.verifyTransfers ?? false;
+        this.checksumAlgorithm = options.checksumAlgorithm ?? "sha256";
     }
 
     /**
@@ -55,6 +171,32 @@ export class Storage {
         return p.startsWith("/") ? p : `/${p}`;
     }
 
+    /**
+     * Sends a request to the storage container and converts failures into typed errors.
+     * @param targetPath The storage path the request targets.
+     * @param init The fetch request configuration.
+     * @param action Human-readable action name used in error messages (e.g., "Upload").
+     * @param options Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to the successful response.
+     * @throws NetworkError if the request could not be sent.
+     * @throws AbortError if the request was cancelled, or TimeoutError if it timed out.
+     * @throws CludzError (or a subclass) if the storage API returns a non-OK response.
+     * @private
+     */
+    private async send(targetPath: string, init: RequestInit, action: string, options: CallOptions = {}): Promise<Response> {
+        const path = this.normalizePath(targetPath);
+
+        return send(`${this.api}${path}`, init, {
+            endpoint: path,
+            retry: resolveRetryPolicy(init.method || "GET", this.retry, options.retry),
+            errorPrefix: `${action} failed`,
+            fetch: this.fetch,
+            middleware: this.middleware,
+            signal: options.signal,
+            timeout: options.timeout ?? this.timeout,
+        });
+    }
+
     /**
      * Resolves various file sources into a Blob or File for FormData.
      * @param source The file source (path, Buffer, Blob, or File).
@@ -78,7 +220,7 @@ export class Storage {
                 const name = fileName === "file" ? source.split(/[\\/]/).pop() || "file" : fileName;
                 return new File([buffer], name);
             } catch (error: any) {
-                throw new Error(`Failed to read local file path: ${error.message}`);
+                throw new CludzError(`Failed to read local file path: ${error.message}`, { cause: error });
             }
         }
 
@@ -90,7 +232,7 @@ export class Storage {
             return new Blob([source]);
         }
 
-        throw new Error("Invalid file source type. Supported: local path string, Buffer, or Blob/File.");
+        throw new ValidationError("Invalid file source type. Supported: local path string, Buffer, or Blob/File.");
     }
 
     /**
@@ -98,11 +240,13 @@ export class Storage {
      * @param targetDirectory The target directory in storage (e.g., "/Documents").
      * @param source The file source (local path, Buffer, Blob, or File).
      * @param fileName Optional filename to use in storage.
+     * @param options Per-call options (signal, timeout, retry, verify). Uploads are only retried when `retry` is set explicitly.
      * @returns A promise that resolves when the upload is complete.
-     * @throws Error if the upload fails.
+     * @throws ChecksumMismatchError if verification is on and the stored file does not match the uploaded content.
+     * @throws CludzError if the upload fails.
      */
-    async upload(targetDirectory: string, source: StorageSource, fileName?: string): Promise<void> {
-        const url = `${this.api}${this.normalizePath(targetDirectory)}`;
+    async upload(targetDirectory: string, source: StorageSource, fileName?: string, options: StorageVerifyOptions = {}): Promise<void> {
+        const { verify = this.verifyTransfers, ...call } = options;
         const fileObj = await this.resolveFile(source, fileName);
         
         const finalFileName = fileName || (fileObj instanceof File ? fileObj.name : "file");
@@ -110,140 +254,1302 @@ export class Storage {
         const formData = new FormData();
         formData.append("file", fileObj, finalFileName);
 
-        const response = await fetch(url, {
+        await this.send(targetDirectory, {
             method: "POST",
             headers: this.getHeaders(),
             body: formData,
-        });
+        }, "Upload", call);
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Upload failed: ${response.status} ${response.statusText} - ${errorText}`);
+        if (verify) {
+            const stored = await this.stat(joinPath(this.normalizePath(targetDirectory), finalFileName), call);
+            const checksum = parseChecksum(stored.checksum);
+            checkIntegrity(stored.path, stored, {
+                size: fileObj.size,
+                algorithm: checksum?.algorithm,
+                digest: checksum ? await hashStream(fileObj.stream(), checksum.algorithm) : undefined,
+            });
         }
     }
 
     /**
      * Deletes a file or directory from the storage.
      * @param targetPath The path of the item to delete.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves when the deletion is complete.
-     * @throws Error if the deletion fails.
+     * @throws CludzError if the deletion fails.
      */
-    async delete(targetPath: string): Promise<void> {
-        const url = `${this.api}${this.normalizePath(targetPath)}`;
-        const response = await fetch(url, {
+    async delete(targetPath: string, options: CallOptions = {}): Promise<void> {
+        await this.send(targetPath, {
             method: "DELETE",
             headers: this.getHeaders(),
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Delete failed: ${response.status} ${response.statusText} - ${errorText}`);
-        }
+        }, "Delete", options);
     }
 
     /**
      * Creates a new folder in the storage.
      * @param parentPath The path to the parent directory.
      * @param folderName The name of the new folder.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves when the folder is created.
-     * @throws Error if the folder creation fails.
+     * @throws CludzError if the folder creation fails.
      */
-    async createFolder(parentPath: string, folderName: string): Promise<void> {
-        const url = `${this.api}${this.normalizePath(parentPath)}`;
-        const response = await fetch(url, {
+    async createFolder(parentPath: string, folderName: string, options: CallOptions = {}): Promise<void> {
+        await this.send(parentPath, {
             method: "POST",
             headers: this.getHeaders({ "Content-Type": "application/json" }),
             body: JSON.stringify({ type: "folder", name: folderName }),
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Create folder failed: ${response.status} ${response.statusText} - ${errorText}`);
-        }
+        }, "Create folder", options);
     }
 
     /**
      * Creates an empty file in the storage.
      * @param parentPath The path to the parent directory.
      * @param fileName The name of the new file.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves when the file is created.
-     * @throws Error if the file creation fails.
+     * @throws CludzError if the file creation fails.
      */
-    async createFile(parentPath: string, fileName: string): Promise<void> {
-        const url = `${this.api}${this.normalizePath(parentPath)}`;
-        const response = await fetch(url, {
+    async createFile(parentPath: string, fileName: string, options: CallOptions = {}): Promise<void> {
+        await this.send(parentPath, {
             method: "POST",
             headers: this.getHeaders({ "Content-Type": "application/json" }),
             body: JSON.stringify({ type: "file", name: fileName }),
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Create file failed: ${response.status} ${response.statusText} - ${errorText}`);
-        }
+        }, "Create file", options);
     }
 
     /**
      * Renames or moves a file or directory in the storage.
      * @param targetPath The current path of the item.
      * @param newName The new name for the item.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves when the item is renamed.
-     * @throws Error if the rename operation fails.
+     * @throws CludzError if the rename operation fails.
      */
-    async rename(targetPath: string, newName: string): Promise<void> {
-        const url = `${this.api}${this.normalizePath(targetPath)}`;
-        const response = await fetch(url, {
+    async rename(targetPath: string, newName: string, options: CallOptions = {}): Promise<void> {
+        await this.send(targetPath, {
             method: "PUT",
             headers: this.getHeaders({ "Content-Type": "application/json" }),
             body: JSON.stringify({ new_name: newName }),
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Rename failed: ${response.status} ${response.statusText} - ${errorText}`);
-        }
+        }, "Rename", options);
     }
 
     /**
      * Lists the contents of a directory in the storage.
      * @param targetPath The path of the directory to list.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves to an array of file and directory information.
-     * @throws Error if the list operation fails.
+     * @throws CludzError if the list operation fails or the response is not valid JSON.
      */
-    async list(targetPath: string): Promise<FileInfo[]> {
-        const url = `${this.api}${this.normalizePath(targetPath)}`;
-        const response = await fetch(url, {
+    async list(targetPath: string, options: CallOptions = {}): Promise<FileInfo[]> {
+        const response = await this.send(targetPath, {
             method: "GET",
             headers: this.getHeaders(),
-        });
+        }, "List", options);
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`List failed: ${response.status} ${response.statusText} - ${errorText}`);
+        try {
+            const json = await response.json() as { data: FileInfo[] };
+            return json.data;
+        } catch (error) {
+            throw new CludzError("List failed: invalid JSON response", {
+                status: response.status,
+                endpoint: this.normalizePath(targetPath),
+                method: "GET",
+                cause: error,
+            });
         }
-
-        const json = await response.json() as { data: FileInfo[] };
-        return json.data;
     }
 
     /**
      * Downloads a file from the storage as a Blob.
      * @param targetPath The path of the file in storage.
+     * @param options Per-call options such as an abort signal, timeout, retry override or verification.
      * @returns A promise that resolves to the file data as a Blob.
-     * @throws Error if the download operation fails.
+     * @throws ChecksumMismatchError if verification is on and the data does not match the stored checksum.
+     * @throws CludzError if the download operation fails.
      */
-    async download(targetPath: string): Promise<Blob> {
-        const url = `${this.api}${this.normalizePath(targetPath)}`;
-        const response = await fetch(url, {
+    async download(targetPath: string, options: StorageVerifyOptions = {}): Promise<Blob> {
+        const { verify = this.verifyTransfers, ...call } = options;
+        const stored = verify ? await this.stat(targetPath, call) : undefined;
+
+        const response = await this.send(targetPath, {
             method: "GET",
             headers: this.getHeaders(),
+        }, "Download", call);
+
+        const blob = await response.blob();
+        if (stored) {
+            const checksum = parseChecksum(stored.checksum);
+            checkIntegrity(stored.path, stored, {
+                size: blob.size,
+                algorithm: checksum?.algorithm,
+                digest: checksum ? await hashStream(blob.stream(), checksum.algorithm) : undefined,
+            });
+        }
+        return blob;
+    }
+
+    /**
+     * Uploads a file to a specific directory in the storage, streaming it from its source without reading it into memory.
+     * @param targetDirectory The target directory in storage (e.g., "/Documents").
+     * @param source The file source (local path, ReadableStream, or Node.js readable stream).
+     * @param fileName Optional filename to use in storage. Defaults to the local file's name for paths, otherwise "file".
+     * @param options Per-call options (signal, timeout, verify), expected size and progress callback. Streamed uploads are never retried.
+     * With verification on, the content is hashed with the client's `checksumAlgorithm` as it is sent.
+     * @returns A promise that resolves to the number of bytes uploaded.
+     * @throws ValidationError if the source type is not supported.
+     * @throws ChecksumMismatchError if verification is on and the stored file does not match the uploaded content.
+     * @throws CludzError if the file cannot be read or the upload fails.
+     */
+    async uploadStream(
+        targetDirectory: string,
+        source: StorageStreamSource,
+        fileName?: string,
+        options: StorageUploadStreamOptions = {}
+    ): Promise<number> {
+        const { onProgress, size, verify = this.verifyTransfers, ...call } = options;
+        const input = await toWebStream(source);
+        const name = fileName || (typeof source === "string" ? source.split(/[\\/]/).pop() : undefined) || "file";
+
+        const counter = progressStream(size ?? input.size, onProgress);
+        const hasher = verify ? await hashingStream(this.checksumAlgorithm) : undefined;
+        const content = input.stream.pipeThrough(counter);
+        const body = multipartStream("file", name, hasher ? content.pipeThrough(hasher) : content);
+
+        await this.send(targetDirectory, {
+            method: "POST",
+            headers: this.getHeaders({ "Content-Type": body.contentType }),
+            body: body.stream,
+            // Required by fetch for streamed request bodies.
+            duplex: "half",
+        } as RequestInit, "Upload", { ...call, retry: false, timeout: call.timeout ?? 0 });
+
+        if (hasher) {
+            const stored = await this.stat(joinPath(this.normalizePath(targetDirectory), name), call);
+            checkIntegrity(stored.path, stored, { size: counter.loaded, algorithm: this.checksumAlgorithm, digest: hasher.digest });
+        }
+
+        return counter.loaded;
+    }
+
+    /**
+     * Downloads a file from the storage as a stream, without buffering it in memory.
+     * Use `Readable.fromWeb()` from "node:stream" to consume it as a Node.js stream.
+     * @param targetPath The path of the file in storage.
+     * @param options Per-call options (signal, timeout, retry, verify) and progress callback.
+     * With verification on, the stream errors with a `ChecksumMismatchError` at its end if the content does not match.
+     * @returns A promise that resolves to the file content stream.
+     * @throws CludzError if the download request fails.
+     */
+    async downloadStream(targetPath: string, options: StorageTransferOptions = {}): Promise<ReadableStream<Uint8Array>> {
+        const { response, check } = await this.openDownload(targetPath, options);
+        const body = (response.body ?? new Blob([]).stream())
+            .pipeThrough(progressStream(contentLength(response.headers), options.onProgress));
+        return check ? body.pipeThrough(check) : body;
+    }
+
+    /**
+     * Downloads a file from the storage straight to a local file. Missing parent directories are created,
+     * and the file is only replaced once fully written.
+     * @param targetPath The path of the file in storage.
+     * @param localPath The local file path, or a directory (ending with a separator or already existing)
+     * to save the file into under its storage name.
+     * @param options Per-call options (signal, timeout, retry, verify) and progress callback.
+     * @returns A promise that resolves to the number of bytes written.
+     * @throws AbortError if the signal aborts during the transfer.
+     * @throws ChecksumMismatchError if verification is on and the content does not match. The local file is left untouched.
+     * @throws CludzError if the download or writing fails.
+     */
+    async downloadToFile(targetPath: string, localPath: string, options: StorageTransferOptions = {}): Promise<number> {
+        const { response, check } = await this.openDownload(targetPath, options);
+
+        let to = localPath;
+        if (await isDirectoryPath(localPath)) {
+            const { join } = await import("node:path");
+            const name = dispositionFileName(response.headers) || targetPath.split("/").filter(Boolean).pop() || "file";
+            to = join(localPath, name.replace(/[\\/]/g, "_"));
+        }
+
+        const body = response.body ?? new Blob([]).stream();
+        return writeStream(check ? body.pipeThrough(check) : body, to, {
+            total: contentLength(response.headers),
+            onProgress: options.onProgress,
+            signal: options.signal,
         });
+    }
+
+    /**
+     * Sends a download request whose body is consumed as a stream.
+     * @param targetPath The path of the file in storage.
+     * @param options Per-call options. The client-wide timeout does not apply unless set for this call.
+     * @returns A promise that resolves to the response with an unread body and, when verification is on,
+     * a stream that checks the body against the stored size and checksum.
+     * @throws CludzError if the download request fails.
+     * @private
+     */
+    private async openDownload(
+        targetPath: string,
+        options: StorageTransferOptions
+    ): Promise<{ response: Response; check?: TransformStream<Uint8Array, Uint8Array> }> {
+        const { onProgress, verify = this.verifyTransfers, ...call } = options;
+        const stored = verify ? await this.stat(targetPath, call) : undefined;
+
+        const response = await this.send(targetPath, {
+            method: "GET",
+            headers: this.getHeaders(),
+        }, "Download", { ...call, timeout: call.timeout ?? 0 });
+
+        return { response, check: stored ? await integrityStream(stored.path, stored) : undefined };
+    }
+
+    /**
+     * Returns information about a file or directory, like `fs.stat`.
+     * @param targetPath The path of the item.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to the item's information and full path.
+     * @throws NotFoundError if the item does not exist.
+     * @throws CludzError if the request fails.
+     */
+    async stat(targetPath: string, options: CallOptions = {}): Promise<StorageStats> {
+        const path = this.normalizePath(targetPath).replace(/(.)\/+$/, "$1");
+        if (path === "/") {
+            return { name: "", path, size: 0, isDirectory: true, checksum: "", created_at: "", modified_at: "" };
+        }
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Download failed: ${response.status} ${response.statusText} - ${errorText}`);
+        const slash = path.lastIndexOf("/");
+        const name = path.slice(slash + 1);
+        const info = (await this.list(path.slice(0, slash) || "/", options)).find((item) => item.name === name);
+        if (!info) {
+            throw new NotFoundError(`No such file or directory: ${path}`, { endpoint: path });
         }
+        return { ...info, path };
+    }
 
-        return response.blob();
+    /**
+     * Checks whether a file or directory exists.
+     * @param targetPath The path of the item.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to true if the item exists.
+     * @throws CludzError if the request fails for another reason than the item not existing.
+     */
+    async exists(targetPath: string, options: CallOptions = {}): Promise<boolean> {
+        try {
+            await this.stat(targetPath, options);
+            return true;
+        } catch (error) {
+            if (error instanceof NotFoundError) return false;
+            throw error;
+        }
     }
+
+    /**
+     * Creates a directory, like `fs.mkdir`.
+     * @param targetPath The path of the new directory.
+     * @param options `recursive` to create missing parents and accept an existing directory, plus per-call options.
+     * @returns A promise that resolves when the directory exists.
+     * @throws ValidationError if part of the path exists as a file.
+     * @throws CludzError if a request fails.
+     */
+    async mkdir(targetPath: string, options: StorageMkdirOptions = {}): Promise<void> {
+        const { recursive, ...call } = options;
+        const segments = this.normalizePath(targetPath).split("/").filter(Boolean);
+
+        if (!recursive) {
+            const name = segments.pop();
+            if (name) await this.createFolder(`/${segments.join("/")}`, name, call);
+            return;
+        }
+
+        let parent = "/";
+        for (const name of segments) {
+            const existing = (await this.list(parent, call)).find((item) => item.name === name);
+            if (!existing) {
+                await this.createFolder(parent, name, call);
+            } else if (!existing.isDirectory) {
+                throw new ValidationError(`${joinPath(parent, name)} exists and is not a directory`);
+            }
+            parent = joinPath(parent, name);
+        }
+    }
+
+    /**
+     * Lists the names in a directory, like `fs.readdir`.
+     * @param targetPath The path of the directory.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to the entry names, sorted.
+     * @throws CludzError if the list operation fails.
+     */
+    async readdir(targetPath: string, options?: CallOptions & { withFileTypes?: false }): Promise<string[]>;
+    /**
+     * Lists the entries in a directory with their information, like `fs.readdir` with `withFileTypes`.
+     * @param targetPath The path of the directory.
+     * @param options `withFileTypes: true`, plus per-call options.
+     * @returns A promise that resolves to the entries, sorted by name.
+     * @throws CludzError if the list operation fails.
+     */
+    async readdir(targetPath: string, options: CallOptions & { withFileTypes: true }): Promise<StorageStats[]>;
+    async readdir(
+        targetPath: string,
+        options: CallOptions & { withFileTypes?: boolean } = {}
+    ): Promise<string[] | StorageStats[]> {
+        const { withFileTypes, ...call } = options;
+        const directory = this.normalizePath(targetPath);
+        const items = (await this.list(directory, call)).sort((a, b) => a.name.localeCompare(b.name));
+
+        return withFileTypes
+            ? items.map((item) => ({ ...item, path: joinPath(directory, item.name) }))
+            : items.map((item) => item.name);
+    }
+
+    /**
+     * Reads a whole file into memory, like `fs.readFile`. Use `downloadStream()` for large files.
+     * @param targetPath The path of the file.
+     * @param options Per-call options.
+     * @returns A promise that resolves to the file content.
+     * @throws CludzError if the download fails.
+     */
+    async readFile(targetPath: string, options?: StorageReadFileOptions & { encoding?: null }): Promise<Buffer>;
+    /**
+     * Reads a whole file into memory as text, like `fs.readFile` with an encoding.
+     * @param targetPath The path of the file.
+     * @param options The encoding, or the encoding and per-call options.
+     * @returns A promise that resolves to the decoded content.
+     * @throws CludzError if the download fails.
+     */
+    async readFile(targetPath: string, options: BufferEncoding | (StorageReadFileOptions & { encoding: BufferEncoding })): Promise<string>;
+    async readFile(targetPath: string, options: BufferEncoding | StorageReadFileOptions = {}): Promise<Buffer | string> {
+        const { encoding, ...call } = typeof options === "string" ? { encoding: options } : options;
+        const buffer = Buffer.from(await (await this.download(targetPath, call)).arrayBuffer());
+        return encoding ? buffer.toString(encoding) : buffer;
+    }
+
+    /**
+     * Writes a whole file, replacing it if it exists, like `fs.writeFile`. Use `uploadStream()` for large files.
+     * @param targetPath The path of the file.
+     * @param data The content: text, bytes or a Blob.
+     * @param options The encoding of text, whether to create missing parent directories, and per-call options.
+     * @returns A promise that resolves when the file is written.
+     * @throws ValidationError if the path has no file name.
+     * @throws CludzError if the upload fails.
+     */
+    async writeFile(
+        targetPath: string,
+        data: string | Uint8Array | Blob,
+        options: BufferEncoding | StorageWriteFileOptions = {}
+    ): Promise<void> {
+        const { encoding = "utf8", recursive, ...call } = typeof options === "string" ? { encoding: options } : options;
+        const path = this.normalizePath(targetPath);
+        const slash = path.lastIndexOf("/");
+        const directory = path.slice(0, slash) || "/";
+        const name = path.slice(slash + 1);
+        if (!name) {
+            throw new ValidationError(`Invalid file path: ${targetPath}`);
+        }
+
+        if (recursive) await this.mkdir(directory, { ...call, recursive: true });
+
+        const blob = data instanceof Blob
+            ? data
+            : new Blob([typeof data === "string" ? Buffer.from(data, encoding) : data]);
+        await this.upload(directory, blob, name, call);
+    }
+
+    /**
+     * Removes a file or directory, like `fs.rm`.
+     * @param targetPath The path of the item.
+     * @param options `recursive` to remove directories, `force` to ignore missing items, plus per-call options.
+     * @returns A promise that resolves when the item is removed.
+     * @throws NotFoundError if the item does not exist and `force` is not set.
+     * @throws ValidationError if the item is a directory and `recursive` is not set.
+     * @throws CludzError if a request fails.
+     */
+    async rm(targetPath: string, options: StorageRmOptions = {}): Promise<void> {
+        const { recursive, force, ...call } = options;
+
+        let stats: StorageStats;
+        try {
+            stats = await this.stat(targetPath, call);
+        } catch (error) {
+            if (force && error instanceof NotFoundError) return;
+            throw error;
+        }
+
+        if (stats.isDirectory && !recursive) {
+            throw new ValidationError(`${stats.path} is a directory. Pass { recursive: true } to remove it`);
+        }
+        if (stats.path === "/") {
+            throw new ValidationError("Cannot remove the root directory");
+        }
+
+        await this.delete(stats.path, call);
+    }
+
+    /**
+     * Copies a file or directory tree within this container. Files are streamed through the client,
+     * since the storage API has no server-side copy.
+     * @param source The path of the file or directory to copy.
+     * @param destination The full path of the copy. Directories are merged into an existing directory.
+     * @param options Overwrite policy, verification, concurrency, callbacks and per-call options.
+     * @returns A promise that resolves to what was copied.
+     * @see Storage.transfer for the full behavior.
+     */
+    async copy(source: string, destination: string, options: StorageCopyOptions = {}): Promise<StorageCopyReport> {
+        return Storage.transfer(this, source, this, destination, options);
+    }
+
+    /**
+     * Moves a file or directory within this container. A rename within the same directory is done in place;
+     * otherwise the item is copied and the source is deleted once its copy succeeded.
+     * Files that are skipped by the overwrite policy or fail to copy are kept at the source, along with
+     * the directories that contain them; only what was copied is deleted.
+     * @param source The path of the file or directory to move.
+     * @param destination The full path to move it to.
+     * @param options Overwrite policy, verification, concurrency, callbacks and per-call options.
+     * @returns A promise that resolves to what was moved.
+     * @see Storage.transfer for the copy behavior.
+     */
+    async move(source: string, destination: string, options: StorageCopyOptions = {}): Promise<StorageCopyReport> {
+        const startedAt = Date.now();
+        const { overwrite, verify, concurrency, onProgress, onItem, ...call } = options;
+
+        const from = await this.stat(source, call);
+        const to = this.normalizePath(destination).replace(/(.)\/+$/, "$1");
+        const parent = (path: string) => path.slice(0, path.lastIndexOf("/")) || "/";
+
+        if (to !== from.path && parent(to) === parent(from.path) && !(await this.exists(to, call))) {
+            await this.rename(from.path, to.slice(to.lastIndexOf("/") + 1), call);
+            const item: StorageCopyItem = { source: from.path, destination: to, isDirectory: from.isDirectory, status: "copied" };
+            if (!from.isDirectory) item.size = from.size;
+            onItem?.({ ...item });
+
+            return {
+                items: [item],
+                copied: from.isDirectory ? 0 : 1,
+                skipped: 0,
+                failed: 0,
+                bytes: 0,
+                duration: Date.now() - startedAt,
+            };
+        }
+
+        const report = await Storage.transfer(this, from.path, this, to, options);
+
+        // Files that were skipped or failed stay at the source, and so do the directories that hold them.
+        const kept = report.items
+            .filter((item) => item.status === "failed" || (!item.isDirectory && item.status === "skipped"))
+            .map((item) => item.source);
+        const keeps = (path: string) => kept.some((source) => source === path || source.startsWith(`${path}/`));
+
+        if (kept.length === 0) {
+            await this.delete(from.path, call);
+        } else if (from.isDirectory) {
+            // Items list directories parents first, then files, so a removed directory covers what follows it.
+            const removed: string[] = [];
+            for (const item of report.items) {
+                if (removed.some((dir) => item.source.startsWith(`${dir}/`))) continue;
+                if (item.isDirectory ? keeps(item.source) : item.status !== "copied") continue;
+
+                await this.delete(item.source, call);
+                if (item.isDirectory) removed.push(item.source);
+            }
+        }
+
+        report.duration = Date.now() - startedAt;
+        return report;
+    }
+
+    /**
+     * Copies a file or directory tree from one storage container to another (or within the same one),
+     * streaming each file without buffering it. Destination directories are created as needed.
+     * For a directory, a failing file does not stop the others; check the report's `failed` count.
+     * @param from The container to copy from.
+     * @param source The path of the file or directory in `from`.
+     * @param to The container to copy to.
+     * @param destination The full path of the copy in `to`. Directories are merged into an existing directory.
+     * @param options Overwrite policy, verification, concurrency, callbacks and per-call options.
+     * @returns A promise that resolves to what was copied.
+     * @throws ValidationError if an option is invalid, a directory would be copied into itself, or the destination is a different type of item.
+     * @throws NotFoundError if the source does not exist.
+     * @throws ChecksumMismatchError if a single copied file does not match its source.
+     * @throws CludzError if a single file fails to copy, or a listing fails.
+     */
+    static async transfer(
+        from: Storage,
+        source: string,
+        to: Storage,
+        destination: string,
+        options: StorageCopyOptions = {}
+    ): Promise<StorageCopyReport> {
+        const startedAt = Date.now();
+        const { overwrite = "error", verify = true, concurrency = 4, onProgress, onItem, ...call } = options;
+
+        if (!["always", "never", "newer", "error"].includes(overwrite)) {
+            throw new ValidationError(`Invalid overwrite policy "${overwrite}". Expected "always", "never", "newer" or "error"`);
+        }
+
+        const root = await from.stat(source, call);
+        const target = to.normalizePath(destination).replace(/(.)\/+$/, "$1");
+
+        if (from.api === to.api && (target === root.path || target.startsWith(joinPath(root.path, "")))) {
+            throw new ValidationError(`Cannot copy ${root.path} into itself`);
+        }
+
+        let existing: StorageStats | undefined;
+        try {
+            existing = await to.stat(target, call);
+        } catch (error) {
+            if (!(error instanceof NotFoundError)) throw error;
+        }
+        if (existing && existing.isDirectory !== root.isDirectory) {
+            throw new ValidationError(`${target} already exists and is ${existing.isDirectory ? "a directory" : "a file"}`);
+        }
+
+        // Source entries and existing destination entries, keyed by path relative to the copied root.
+        const sources = new Map<string, FileInfo>([["", root]]);
+        const targets = new Map<string, FileInfo>(existing ? [["", existing]] : []);
+        if (root.isDirectory) {
+            for await (const entry of from.walk(root.path, { ...call, concurrency })) sources.set(relativePath(root.path, entry.path), entry);
+            if (existing) {
+                for await (const entry of to.walk(target, { ...call, concurrency })) targets.set(relativePath(target, entry.path), entry);
+            }
+        }
+
+        const resolve = (rel: string) => ({
+            source: rel ? joinPath(root.path, rel) : root.path,
+            destination: rel ? joinPath(target, rel) : target,
+        });
+        const items: StorageCopyItem[] = [];
+        const finish = (item: StorageCopyItem, status: StorageCopyItem["status"], error?: unknown) => {
+            item.status = status;
+            if (error !== undefined) item.error = error instanceof Error ? error : new CludzError(String(error));
+            onItem?.({ ...item });
+        };
+
+        const paths = [...sources.keys()].sort();
+        const total = paths.reduce((sum, rel) => sum + (sources.get(rel)?.isDirectory ? 0 : (sources.get(rel) as FileInfo).size), 0);
+        let loaded = 0;
+
+        // Directories first, parents before children, so files can be written into them.
+        const failedDirs: string[] = [];
+        for (const rel of paths.filter((rel) => sources.get(rel)?.isDirectory)) {
+            if (call.signal?.aborted) break;
+            const item: StorageCopyItem = { ...resolve(rel), isDirectory: true, status: "copied" };
+            items.push(item);
+
+            if (targets.get(rel)?.isDirectory) {
+                finish(item, "skipped");
+                continue;
+            }
+            try {
+                if (targets.has(rel)) throw new ValidationError(`${item.destination} already exists and is a file`);
+                await to.mkdir(item.destination, { ...call, recursive: rel === "" });
+                finish(item, "copied");
+            } catch (error) {
+                failedDirs.push(rel);
+                finish(item, "failed", error);
+            }
+        }
+
+        const files = paths
+            .filter((rel) => !sources.get(rel)?.isDirectory)
+            .map((rel) => {
+                const item: StorageCopyItem = { ...resolve(rel), isDirectory: false, size: sources.get(rel)?.size, status: "copied" };
+                items.push(item);
+                return { rel, item };
+            });
+
+        const copyFile = async (rel: string, item: StorageCopyItem) => {
+            const info = sources.get(rel) as FileInfo;
+            const current = targets.get(rel);
+
+            if (current) {
+                if (current.isDirectory) throw new ValidationError(`${item.destination} already exists and is a directory`);
+                if (overwrite === "error") throw new ValidationError(`${item.destination} already exists`);
+                if (overwrite === "never") return "skipped";
+                if (overwrite === "newer" && !(Date.parse(info.modified_at) > Date.parse(current.modified_at))) return "skipped";
+            }
+
+            const slash = item.destination.lastIndexOf("/");
+            let sent = 0;
+            // The copy is checked against the source's stored checksum below, not against the bytes in transit.
+            const stream = await from.downloadStream(item.source, { ...call, verify: false });
+            await to.uploadStream(item.destination.slice(0, slash) || "/", stream, item.destination.slice(slash + 1), {
+                ...call,
+                verify: false,
+                size: info.size,
+                onProgress: (progress) => {
+                    loaded += progress.loaded - sent;
+                    sent = progress.loaded;
+                    onProgress?.({ loaded, total, percent: total ? Math.min(100, (loaded / total) * 100) : undefined });
+                },
+            });
+
+            if (verify) {
+                const stored = await to.stat(item.destination, call);
+                const actual = parseChecksum(stored.checksum);
+                checkIntegrity(item.destination, info, { size: stored.size, algorithm: actual?.algorithm, digest: actual?.digest });
+            }
+            return "copied";
+        };
+
+        const worker = async () => {
+            for (let next = files.shift(); next && !call.signal?.aborted; next = files.shift()) {
+                const { rel, item } = next;
+                if (failedDirs.some((dir) => rel.startsWith(`${dir}/`))) {
+                    finish(item, "failed", new CludzError(`Could not create the directory for ${item.destination}`));
+                    continue;
+                }
+                try {
+                    finish(item, await copyFile(rel, item));
+                } catch (error) {
+                    if (call.signal?.aborted) break;
+                    finish(item, "failed", error);
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+
+        if (call.signal?.aborted) {
+            throw new AbortError(undefined, { cause: call.signal.reason });
+        }
+
+        const single = items.length === 1 && !root.isDirectory ? items[0] : undefined;
+        if (single?.error) throw single.error;
+
+        const count = (status: StorageCopyItem["status"]) =>
+            items.filter((item) => !item.isDirectory && item.status === status).length;
+
+        return {
+            items,
+            copied: count("copied"),
+            skipped: count("skipped"),
+            failed: items.filter((item) => item.status === "failed").length,
+            bytes: items.reduce((sum, item) => sum + (!item.isDirectory && item.status === "copied" ? item.size ?? 0 : 0), 0),
+            duration: Date.now() - startedAt,
+        };
+    }
+
+    /**
+     * Lists a storage directory and everything below it. Directories are listed in parallel, so entries
+     * arrive in the order their directories finish listing; entries of a single directory keep the server's order.
+     * @param targetPath The directory to start from.
+     * @param options Depth limit, listing concurrency, exclusions and per-call options.
+     * @returns An async generator of entries with their full paths.
+     * @throws CludzError if a listing fails.
+     */
+    async *walk(targetPath: string, options: StorageWalkOptions = {}): AsyncGenerator<StorageEntry, void, undefined> {
+        const { maxDepth = Infinity, concurrency = 4, exclude, ...call } = options;
+        const root = this.normalizePath(targetPath);
+        const excluded = pathFilter(exclude);
+
+        type Listing = { id: number; dir: string; depth: number; items?: FileInfo[]; error?: unknown };
+        const pending: { dir: string; depth: number }[] = [{ dir: root, depth: 1 }];
+        const running = new Map<number, Promise<Listing>>();
+        let nextId = 0;
+
+        while (pending.length || running.size) {
+            while (pending.length && running.size < Math.max(1, concurrency)) {
+                const { dir, depth } = pending.shift() as { dir: string; depth: number };
+                const id = nextId++;
+                running.set(id, this.list(dir, call).then(
+                    (items) => ({ id, dir, depth, items }),
+                    (error) => ({ id, dir, depth, error })
+                ));
+            }
+
+            const listing = await Promise.race(running.values());
+            running.delete(listing.id);
+            if (listing.error !== undefined) throw listing.error;
+
+            for (const info of listing.items ?? []) {
+                const path = joinPath(listing.dir, info.name);
+                if (excluded(relativePath(root, path), info.isDirectory)) continue;
+
+                if (info.isDirectory && listing.depth < maxDepth) {
+                    pending.push({ dir: path, depth: listing.depth + 1 });
+                }
+                yield { ...info, path, depth: listing.depth };
+            }
+        }
+    }
+
+    /**
+     * Finds entries below a storage directory that match every given criterion.
+     * @param targetPath The directory to search.
+     * @param options Search criteria, plus the options of `walk()`.
+     * @returns A promise that resolves to the matching entries, sorted by path.
+     * @throws ValidationError if a date criterion is invalid.
+     * @throws CludzError if a listing fails.
+     */
+    async find(targetPath: string, options: StorageFindOptions = {}): Promise<StorageEntry[]> {
+        const { glob, type, minSize, maxSize, modifiedAfter, modifiedBefore, ...walk } = options;
+        const root = this.normalizePath(targetPath);
+        const matches = glob !== undefined ? pathFilter(glob) : () => true;
+        const after = modifiedAfter !== undefined ? toTime(modifiedAfter, "modifiedAfter") : undefined;
+        const before = modifiedBefore !== undefined ? toTime(modifiedBefore, "modifiedBefore") : undefined;
+
+        const found: StorageEntry[] = [];
+        for await (const entry of this.walk(root, walk)) {
+            if (type !== undefined && entry.isDirectory !== (type === "directory")) continue;
+            if (minSize !== undefined && entry.size < minSize) continue;
+            if (maxSize !== undefined && entry.size > maxSize) continue;
+
+            const modified = Date.parse(entry.modified_at);
+            if (after !== undefined && !(modified > after)) continue;
+            if (before !== undefined && !(modified < before)) continue;
+
+            if (matches(relativePath(root, entry.path), entry.isDirectory)) found.push(entry);
+        }
+
+        return found.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Computes the total size of a storage directory, like `du`.
+     * @param targetPath The directory to measure.
+     * @param options The options of `walk()`. Files below `maxDepth` are not counted.
+     * @returns A promise that resolves to the directory's usage.
+     * @throws CludzError if a listing fails.
+     */
+    async du(targetPath: string, options: StorageWalkOptions = {}): Promise<StorageUsage> {
+        const root = this.normalizePath(targetPath);
+        const usage: StorageUsage = { path: root, size: 0, files: 0, directories: 0, children: {} };
+
+        for await (const entry of this.walk(root, options)) {
+            const child = relativePath(root, entry.path).split("/")[0] as string;
+            usage.children[child] ??= 0;
+
+            if (entry.isDirectory) {
+                usage.directories++;
+            } else {
+                usage.files++;
+                usage.size += entry.size;
+                usage.children[child] += entry.size;
+            }
+        }
+
+        return usage;
+    }
+
+    /**
+     * Checks a stored file against its checksum, by downloading and hashing it, or by hashing a local copy.
+     * Mismatches are reported in the result rather than thrown, so this can be used for audits.
+     * @param targetPath The path of the file in storage.
+     * @param options A local copy to check instead of downloading, plus per-call options.
+     * @returns A promise that resolves to the outcome of the check.
+     * @throws ValidationError if the path is a directory.
+     * @throws NotFoundError if the file does not exist.
+     * @throws AbortError if the signal aborts.
+     */
+    async verify(targetPath: string, options: StorageVerifyFileOptions = {}): Promise<StorageVerifyResult> {
+        const { local, ...call } = options;
+        const stored = await this.stat(targetPath, call);
+        if (stored.isDirectory) {
+            throw new ValidationError(`${stored.path} is a directory. Use verifyTree() to check directories`);
+        }
+        return this.checkFile(stored, local, call);
+    }
+
+    /**
+     * Checks every file below a storage directory against its checksum, like `verify()`.
+     * @param targetPath The directory to check.
+     * @param options A local directory to check against instead of downloading, callbacks, and the options of `walk()`.
+     * @returns A promise that resolves to the outcome of every check.
+     * @throws AbortError if the signal aborts.
+     * @throws CludzError if a listing fails.
+     */
+    async verifyTree(targetPath: string, options: StorageVerifyTreeOptions = {}): Promise<StorageVerifyReport> {
+        const startedAt = Date.now();
+        const { local, onItem, ...walk } = options;
+        const { maxDepth, concurrency = 4, exclude, ...call } = walk;
+        const root = this.normalizePath(targetPath);
+        const { join } = await import("node:path");
+
+        const files: StorageEntry[] = [];
+        for await (const entry of this.walk(root, walk)) {
+            if (!entry.isDirectory) files.push(entry);
+        }
+        files.sort((a, b) => a.path.localeCompare(b.path));
+
+        const items: StorageVerifyResult[] = [];
+        const queue = [...files];
+        const worker = async () => {
+            for (let entry = queue.shift(); entry && !call.signal?.aborted; entry = queue.shift()) {
+                const result = await this.checkFile(entry, local !== undefined ? join(local, relativePath(root, entry.path)) : undefined, call);
+                items.push(result);
+                onItem?.({ ...result });
+            }
+        };
+        await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+
+        if (call.signal?.aborted) {
+            throw new AbortError(undefined, { cause: call.signal.reason });
+        }
+
+        items.sort((a, b) => a.path.localeCompare(b.path));
+        const count = (status: StorageVerifyResult["status"]) => items.filter((item) => item.status === status).length;
+
+        return {
+            items,
+            ok: count("ok"),
+            mismatched: count("mismatch"),
+            failed: count("failed"),
+            bytes: items.reduce((sum, item) => sum + (item.status !== "failed" ? item.size : 0), 0),
+            duration: Date.now() - startedAt,
+        };
+    }
+
+    /**
+     * Hashes a stored file, or a local copy of it, and compares it with the stored size and checksum.
+     * @param stored The stored file's information.
+     * @param local A local copy to hash instead of downloading the file.
+     * @param options Per-call options.
+     * @returns A promise that resolves to the outcome of the check. Failures are reported in it, not thrown.
+     * @throws AbortError if the signal aborts.
+     * @private
+     */
+    private async checkFile(stored: StorageStats, local: string | undefined, options: CallOptions): Promise<StorageVerifyResult> {
+        const checksum = parseChecksum(stored.checksum);
+        const result: StorageVerifyResult = {
+            path: stored.path,
+            status: "ok",
+            size: stored.size,
+            algorithm: checksum?.algorithm,
+            expected: checksum?.digest,
+        };
+
+        try {
+            const stream = local !== undefined
+                ? (await readFileStream(local)).stream
+                : await this.downloadStream(stored.path, { ...options, verify: false });
+
+            const counter = progressStream(undefined);
+            const digest = await hashStream(stream.pipeThrough(counter), checksum?.algorithm ?? this.checksumAlgorithm);
+            if (checksum) result.actual = digest;
+
+            checkIntegrity(stored.path, stored, { size: counter.loaded, algorithm: checksum?.algorithm, digest: result.actual });
+        } catch (error) {
+            if (options.signal?.aborted) throw new AbortError(undefined, { cause: options.signal.reason });
+            result.status = error instanceof ChecksumMismatchError ? "mismatch" : "failed";
+            result.error = error instanceof Error ? error : new CludzError(String(error));
+        }
+
+        return result;
+    }
+
+    /**
+     * Watches a directory for changes by polling it. Each scan is compared with the previous one using
+     * entry names, sizes, `modified_at` and `checksum`. Use `state` to keep the snapshot across restarts,
+     * so changes made while the process was down are reported once instead of everything being re-emitted.
+     * @param targetPath The directory to watch.
+     * @param options Polling interval, recursion, exclusions, state file and per-call options. The signal stops the watcher.
+     * @returns The watcher. It emits events and can be iterated with `for await`.
+     */
+    watch(targetPath: string, options: StorageWatchOptions = {}): StorageWatcher {
+        return new StorageWatcher(this, this.normalizePath(targetPath), options);
+    }
+
+    /**
+     * Synchronizes a local directory with a storage directory. Both sides are scanned recursively and files are
+     * compared by size, modification time and, when those disagree, checksum; only changed files are transferred.
+     * With a `state` file, files are also compared with how they were when they were last synced, so an uploaded
+     * file is not sent again just because its remote modification time is the upload time.
+     * Missing directories are created with `createFolder`, and downloaded files keep the remote modification time.
+     * A failed change does not stop the others; check the report's `failed` count.
+     * @param localDir The local directory.
+     * @param remoteDir The directory in storage. It is created if it does not exist.
+     * @param options Direction, deletion, dry run, exclusions, concurrency and per-call options.
+     * @returns A promise that resolves to the changes made (or planned, for a dry run).
+     * @throws ValidationError if the options are invalid, or the local directory is missing when uploading.
+     * @throws AbortError if the signal aborts. The state file still records the files synced so far.
+     * @throws CludzError if either directory cannot be scanned, or the state file cannot be read or written.
+     */
+    async sync(localDir: string, remoteDir: string, options: StorageSyncOptions = {}): Promise<StorageSyncReport> {
+        const startedAt = Date.now();
+        const {
+            direction = "upload",
+            deleteExtraneous = false,
+            dryRun = false,
+            exclude,
+            checksum = true,
+            concurrency = 4,
+            state,
+            onItem,
+            ...call
+        } = options;
+
+        if (direction !== "upload" && direction !== "download" && direction !== "both") {
+            throw new ValidationError(`Invalid direction "${direction}". Expected "upload", "download" or "both"`);
+        }
+        if (deleteExtraneous && direction === "both") {
+            throw new ValidationError("The deleteExtraneous option cannot be used with direction \"both\"");
+        }
+
+        const { join, resolve } = await import("node:path");
+        const { mkdir, rm, stat, utimes } = await import("node:fs/promises");
+
+        const root = this.normalizePath(remoteDir);
+        const localRoot = resolve(localDir);
+        const saved = state ? await readJsonFile<SyncState>(state, "sync state") : undefined;
+        const records = saved?.version === 1 && saved.local === localRoot && saved.remote === root ? saved.files : {};
+        const synced: Record<string, SyncRecord> = {};
+
+        const local = await scanLocal(localDir, pathFilter(exclude));
+        if (!local && direction === "upload") {
+            throw new ValidationError(`Local directory not found: ${localDir}`);
+        }
+        const remote = await this.scanRemote(root, exclude, call);
+
+        const items: StorageSyncItem[] = [];
+        let unchanged = 0;
+        const copy = (path: string, entry: SyncEntry, to: "local" | "remote", reason: StorageSyncItem["reason"]) => {
+            items.push(entry.isDirectory
+                ? { path, action: "mkdir", target: to, reason, isDirectory: true, status: "planned" }
+                : { path, action: to === "remote" ? "upload" : "download", target: to, reason, isDirectory: false, size: entry.size, status: "planned" });
+        };
+
+        const paths = [...new Set([...(local?.keys() ?? []), ...(remote?.keys() ?? [])])].sort();
+        const extraneous: string[] = [];
+
+        for (const path of paths) {
+            const mine = local?.get(path);
+            const theirs = remote?.get(path);
+
+            if (mine && theirs) {
+                if (mine.isDirectory !== theirs.isDirectory) {
+                    items.push({
+                        path,
+                        action: direction === "download" ? "download" : "upload",
+                        target: direction === "download" ? "local" : "remote",
+                        reason: "modified",
+                        isDirectory: mine.isDirectory,
+                        status: "failed",
+                        error: new ValidationError(`${path} is a directory on one side and a file on the other`),
+                    });
+                    continue;
+                }
+                if (mine.isDirectory) continue;
+
+                const record = records[path];
+                const localSame = record !== undefined && matchesRecord(mine, record.size, record.local);
+                const remoteSame = record !== undefined && matchesRecord(theirs, record.size, record.remote, record.checksum);
+
+                const reason = localSame && remoteSame ? undefined : await compareEntries(join(localDir, path), mine, theirs, checksum);
+                if (!reason) {
+                    unchanged++;
+                    synced[path] = { size: mine.size, local: mine.modified, remote: theirs.modified, checksum: theirs.checksum };
+                } else if (direction === "both") {
+                    // When only one side changed since the last sync, that side wins regardless of the timestamps.
+                    const localNewer = localSame || remoteSame
+                        ? remoteSame
+                        : theirs.modified === undefined || (mine.modified ?? 0) >= theirs.modified;
+                    copy(path, localNewer ? mine : theirs, localNewer ? "remote" : "local", reason);
+                } else {
+                    copy(path, direction === "upload" ? mine : theirs, direction === "upload" ? "remote" : "local", reason);
+                }
+            } else if (mine && direction !== "download") {
+                copy(path, mine, "remote", "missing");
+            } else if (theirs && direction !== "upload") {
+                copy(path, theirs, "local", "missing");
+            } else if (deleteExtraneous && !extraneous.some((parent) => path.startsWith(`${parent}/`))) {
+                // Only the topmost extraneous entry is deleted; its contents go with it.
+                extraneous.push(path);
+                const entry = (mine ?? theirs) as SyncEntry;
+                items.push({ path, action: "delete", target: mine ? "local" : "remote", reason: "extraneous", isDirectory: entry.isDirectory, status: "planned" });
+            }
+        }
+
+        const finish = (item: StorageSyncItem, error?: unknown) => {
+            if (call.signal?.aborted) return;
+            if (!dryRun) {
+                item.status = error === undefined ? "done" : "failed";
+                if (error !== undefined) item.error = error instanceof Error ? error : new CludzError(String(error));
+            }
+            onItem?.({ ...item });
+        };
+
+        if (dryRun) {
+            items.filter((item) => item.status === "planned").forEach((item) => finish(item));
+        } else {
+            const pending = items.filter((item) => item.status === "planned");
+
+            if (!remote && pending.some((item) => item.target === "remote")) {
+                await this.mkdir(root, { ...call, recursive: true });
+            }
+            if (!local) {
+                await mkdir(localDir, { recursive: true });
+            }
+
+            // Directories first, parents before children, so files can be written into them.
+            for (const item of pending.filter((item) => item.action === "mkdir")) {
+                if (call.signal?.aborted) break;
+                try {
+                    if (item.target === "remote") {
+                        const slash = item.path.lastIndexOf("/");
+                        await this.createFolder(joinPath(root, item.path.slice(0, Math.max(slash, 0))), item.path.slice(slash + 1), call);
+                    } else {
+                        await mkdir(join(localDir, item.path), { recursive: true });
+                    }
+                    finish(item);
+                } catch (error) {
+                    finish(item, error);
+                }
+            }
+
+            const transfers = pending.filter((item) => item.action === "upload" || item.action === "download");
+            const uploaded: string[] = [];
+            const worker = async () => {
+                for (let item = transfers.shift(); item && !call.signal?.aborted; item = transfers.shift()) {
+                    const path = join(localDir, item.path);
+                    try {
+                        if (item.action === "upload") {
+                            const slash = item.path.lastIndexOf("/");
+                            const directory = joinPath(root, item.path.slice(0, Math.max(slash, 0)));
+                            item.size = await this.uploadStream(directory, path, item.path.slice(slash + 1), call);
+                            uploaded.push(item.path);
+                        } else {
+                            item.size = await this.downloadToFile(joinPath(root, item.path), path, call);
+                            const theirs = remote?.get(item.path);
+                            if (theirs?.modified !== undefined) await utimes(path, new Date(), new Date(theirs.modified));
+                            if (state) {
+                                const { mtimeMs } = await stat(path);
+                                synced[item.path] = { size: item.size, local: mtimeMs, remote: theirs?.modified, checksum: theirs?.checksum };
+                            }
+                        }
+                        finish(item);
+                    } catch (error) {
+                        finish(item, error);
+                    }
+                }
+            };
+            await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+
+            // The server sets the modification time of uploaded files, so read it back to record it.
+            if (state && uploaded.length > 0 && !call.signal?.aborted) {
+                const after = await this.scanRemote(root, exclude, call).catch(() => undefined);
+                for (const path of uploaded) {
+                    const theirs = after?.get(path);
+                    const mine = local?.get(path);
+                    if (theirs && mine) {
+                        synced[path] = { size: theirs.size, local: mine.modified, remote: theirs.modified, checksum: theirs.checksum };
+                    }
+                }
+            }
+
+            for (const item of pending.filter((item) => item.action === "delete")) {
+                if (call.signal?.aborted) break;
+                try {
+                    if (item.target === "remote") {
+                        await this.delete(joinPath(root, item.path), call);
+                    } else {
+                        await rm(join(localDir, item.path), { recursive: true, force: true });
+                    }
+                    finish(item);
+                } catch (error) {
+                    finish(item, error);
+                }
+            }
+        }
+
+        if (state && !dryRun) {
+            // Files that were not transferred, e.g., because the transfer failed or was aborted, keep their last record.
+            for (const [path, record] of Object.entries(records)) {
+                if (!(path in synced) && local?.get(path) && remote?.get(path)) synced[path] = record;
+            }
+            await writeJsonFile(state, { version: 1, local: localRoot, remote: root, files: synced } satisfies SyncState, "sync state");
+        }
+
+        if (call.signal?.aborted) {
+            throw new AbortError(undefined, { cause: call.signal.reason });
+        }
+
+        const done = (action: StorageSyncItem["action"]) =>
+            items.filter((item) => item.action === action && item.status === "done").length;
+
+        return {
+            direction,
+            dryRun,
+            items,
+            uploaded: done("upload"),
+            downloaded: done("download"),
+            created: done("mkdir"),
+            deleted: done("delete"),
+            unchanged,
+            failed: items.filter((item) => item.status === "failed").length,
+            bytes: items.reduce((sum, item) => sum + (item.status === "done" ? item.size ?? 0 : 0), 0),
+            duration: Date.now() - startedAt,
+        };
+    }
+
+    /**
+     * Lists a storage directory recursively for `sync()`.
+     * @param root The normalized directory path.
+     * @param exclude Entries to skip.
+     * @param options Per-call options.
+     * @returns A promise that resolves to the entries keyed by relative path, or undefined if the directory does not exist.
+     * @throws CludzError if a listing fails.
+     * @private
+     */
+    private async scanRemote(
+        root: string,
+        exclude: StoragePathFilter | undefined,
+        options: CallOptions
+    ): Promise<Map<string, SyncEntry> | undefined> {
+        const entries = new Map<string, SyncEntry>();
+
+        try {
+            for await (const entry of this.walk(root, { ...options, exclude })) {
+                const modified = Date.parse(entry.modified_at);
+                entries.set(relativePath(root, entry.path), {
+                    isDirectory: entry.isDirectory,
+                    size: entry.size,
+                    modified: Number.isNaN(modified) ? undefined : modified,
+                    checksum: entry.checksum,
+                });
+            }
+        } catch (error) {
+            if (error instanceof NotFoundError && entries.size === 0) return undefined;
+            throw error;
+        }
+        return entries;
+    }
+
+}
+
+/**
+ * Joins a storage directory and an entry name.
+ * @param directory The normalized directory path.
+ * @param name The entry name.
+ * @returns The entry's path.
+ * @private
+ */
+function joinPath(directory: string, name: string): string {
+    return `${directory.replace(/\/+$/, "")}/${name}`;
+}
+
+/**
+ * Returns the path of a storage entry relative to a directory above it.
+ * @param root The normalized directory path.
+ * @param path The entry's full path.
+ * @returns The relative path, with "/" separators.
+ * @private
+ */
+function relativePath(root: string, path: string): string {
+    return path.slice(root.replace(/\/+$/, "").length + 1);
+}
+
+/**
+ * Turns a path filter option into a predicate.
+ * @param filter Glob patterns or a predicate.
+ * @returns A predicate over relative paths, which matches nothing if no filter is given.
+ * @private
+ */
+function pathFilter(filter: StoragePathFilter | undefined): (path: string, isDirectory: boolean) => boolean {
+    if (typeof filter === "function") return filter;
+    if (filter === undefined) return () => false;
+    return pathMatcher(Array.isArray(filter) ? filter : [filter]);
+}
+
+/**
+ * Converts a date option into milliseconds since the epoch.
+ * @param value A Date, date string or timestamp.
+ * @param name The option name, for error messages.
+ * @returns The time in milliseconds.
+ * @throws ValidationError if the value is not a valid date.
+ * @private
+ */
+function toTime(value: Date | string | number, name: string): number {
+    const time = value instanceof Date ? value.getTime() : typeof value === "number" ? value : Date.parse(value);
+    if (Number.isNaN(time)) {
+        throw new ValidationError(`Invalid ${name} date "${value}"`);
+    }
+    return time;
+}
+
+/**
+ * Scans a local directory recursively.
+ * @param root The local directory.
+ * @param excluded Predicate for entries to skip, given paths relative to `root` with "/" separators.
+ * @returns A promise that resolves to the entries keyed by relative path, or undefined if the directory does not exist.
+ * @throws ValidationError if the path is not a directory.
+ * @throws CludzError if the directory cannot be read.
+ * @private
+ */
+async function scanLocal(
+    root: string,
+    excluded: (path: string, isDirectory: boolean) => boolean
+): Promise<Map<string, SyncEntry> | undefined> {
+    const { readdir, stat } = await import("node:fs/promises");
+    const { join } = await import("node:path");
+    const entries = new Map<string, SyncEntry>();
+
+    const visit = async (dir: string) => {
+        for (const dirent of await readdir(join(root, dir), { withFileTypes: true })) {
+            const path = dir ? `${dir}/${dirent.name}` : dirent.name;
+            const isDirectory = dirent.isDirectory();
+            if ((!isDirectory && !dirent.isFile()) || excluded(path, isDirectory)) continue;
+
+            if (isDirectory) {
+                entries.set(path, { isDirectory: true, size: 0 });
+                await visit(path);
+            } else {
+                const info = await stat(join(root, path));
+                entries.set(path, { isDirectory: false, size: info.size, modified: info.mtimeMs });
+            }
+        }
+    };
+
+    try {
+        if (!(await stat(root)).isDirectory()) {
+            throw new ValidationError(`Not a directory: ${root}`);
+        }
+        await visit("");
+    } catch (error: any) {
+        if (error instanceof ValidationError) throw error;
+        if (error?.code === "ENOENT" && entries.size === 0) return undefined;
+        throw new CludzError(`Failed to read local directory: ${error.message}`, { cause: error });
+    }
+    return entries;
+}
+
+/**
+ * Checks whether a file still matches how it was recorded when it was last synced.
+ * @param entry The file as scanned now.
+ * @param size The recorded size.
+ * @param modified The recorded modification time.
+ * @param checksum The recorded checksum, for remote files.
+ * @returns True if the file has not changed since it was last synced.
+ * @private
+ */
+function matchesRecord(entry: SyncEntry, size: number, modified?: number, checksum?: string): boolean {
+    if (entry.size !== size || entry.modified === undefined || modified === undefined) return false;
+    if (checksum && entry.checksum && checksum !== entry.checksum) return false;
+    return Math.abs(entry.modified - modified) < MTIME_TOLERANCE;
+}
+
+/**
+ * Compares a local file with its remote counterpart.
+ * @param localPath The local file path, hashed if a checksum comparison is needed.
+ * @param local The local entry.
+ * @param remote The remote entry.
+ * @param useChecksum Whether to compare checksums when the modification times differ.
+ * @returns A promise that resolves to why the files differ, or undefined if they are the same.
+ * @private
+ */
+async function compareEntries(
+    localPath: string,
+    local: SyncEntry,
+    remote: SyncEntry,
+    useChecksum: boolean
+): Promise<"size" | "modified" | "checksum" | undefined> {
+    if (local.size !== remote.size) return "size";
+
+    if (local.modified !== undefined && remote.modified !== undefined && Math.abs(local.modified - remote.modified) < MTIME_TOLERANCE) {
+        return undefined;
+    }
+
+    const checksum = useChecksum ? parseChecksum(remote.checksum) : undefined;
+    if (!checksum) return "modified";
+
+    const { stream } = await readFileStream(localPath);
+    return await hashStream(stream, checksum.algorithm) === checksum.digest ? undefined : "checksum";
 }
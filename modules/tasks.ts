@@ -1,5 +1,43 @@
 import type { Cludz } from "../index";
-import type { ApiResponse, TaskState, TaskData } from "../types";
+import { AbortError, CludzError, NotFoundError, TaskFailedError, TaskTimeoutError, ValidationError } from "../errors";
+import { sleep } from "../http";
+import type {
+    ApiResponse,
+    TaskState,
+    TaskData,
+    TaskResult,
+    CallOptions,
+    WaitOptions,
+    BatchWaitOptions,
+    TaskSettledResult,
+    TaskJournalEntry,
+} from "../types";
+
+/**
+ * Events emitted by a TaskHandle while it is being waited on or iterated.
+ * @template T The type of the result data when the task is completed.
+ */
+export interface TaskEvents<T = TaskData> {
+    /** The progress percentage or status message changed. */
+    progress: (state: TaskState<T>) => void;
+    /** The task status changed (e.g., "Pending" to "Processing"). */
+    status: (state: TaskState<T>) => void;
+    /** The task finished successfully. */
+    completed: (state: TaskState<T>) => void;
+    /** The task finished with the "Failed" status. */
+    failed: (error: TaskFailedError) => void;
+    /** Another listener threw. Polling continues and the error does not reach `wait()`. */
+    error: (error: CludzError) => void;
+}
+
+/**
+ * Outcome of a task resumed from the journal.
+ * @template T The type of the result data when the task is completed.
+ */
+export interface ResumedTaskResult<T = TaskData> extends TaskSettledResult<T> {
+    /** The journal entry the task was resumed from. */
+    entry: TaskJournalEntry;
+}
 
 /**
  * Module for managing and waiting for background tasks.
@@ -12,43 +50,541 @@ export class Tasks {
      * Retrieves the current state of a specific background task.
      * @template T The expected type of the task result data. Defaults to TaskData.
      * @param id The unique task identifier.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves to the task state.
      */
-    public get<T = TaskData>(id: string): Promise<ApiResponse<TaskState<T>>> {
-        return this.sdk._request(`/v1/tasks/${id}`) as Promise<ApiResponse<TaskState<T>>>;
+    public get<T = TaskData>(id: string, options: CallOptions = {}): Promise<ApiResponse<TaskState<T>>> {
+        return this.sdk._request(`/v1/tasks/${id}`, options) as Promise<ApiResponse<TaskState<T>>>;
+    }
+
+    /**
+     * Creates a handle for an existing task, e.g., one started in an earlier session.
+     * @template T The expected type of the task result data. Defaults to TaskData.
+     * @param task The task identifier, or the response of the call that started the task.
+     * @param defaults Default wait options for the handle.
+     * @returns The task handle.
+     */
+    public handle<T = TaskData>(task: string | ApiResponse<TaskResult>, defaults: WaitOptions = {}): TaskHandle<T> {
+        const response: ApiResponse<TaskResult> = typeof task === "string"
+            ? {
+                statusCode: 200,
+                statusMessage: "OK",
+                message: "",
+                data: { taskId: task, status_url: `${this.sdk.baseUrl}/v1/tasks/${task}` },
+            }
+            : task;
+
+        return new TaskHandle<T>(this, response, defaults);
+    }
+
+    /**
+     * Records a newly started task in the journal, if one is configured.
+     * A write failure is reported through `onJournalError` instead of being thrown,
+     * so the caller never loses the ID of a task that has already started.
+     * @param id The task identifier.
+     * @param origin The SDK call that started the task (e.g., "downloader.youtube.download").
+     * @param params The parameters passed to that call.
+     * @returns A promise that resolves when the entry is written or the write has failed.
+     * @internal
+     */
+    public async record(id: string, origin: string, params: Record<string, any>): Promise<void> {
+        const journal = this.sdk.journal;
+        if (!journal) return;
+
+        const now = new Date().toISOString();
+        try {
+            await journal.put({ id, origin, params, status: "Pending", createdAt: now, updatedAt: now });
+        } catch (error) {
+            this.journalError(error);
+        }
+    }
+
+    /**
+     * Resumes waiting for every journaled task that had not finished, e.g., after a process restart.
+     * Tasks are polled with the same shared scheduler as `waitForAll`, and their journal entries
+     * are removed as they settle.
+     * @template T The expected type of the task result data. Defaults to TaskData.
+     * @param options Polling intervals, overall timeout, concurrency cap, progress callback and abort signal.
+     * @returns A promise that resolves to one settled result per resumed task, including its journal entry.
+     * @throws ValidationError if no journal is configured.
+     * @throws AbortError if the signal aborts while waiting.
+     */
+    public async resumePending<T = TaskData>(options: BatchWaitOptions = {}): Promise<ResumedTaskResult<T>[]> {
+        if (!this.sdk.journal) throw new ValidationError("No task journal is configured");
+
+        const entries = (await this.sdk.journal.list())
+            .filter((entry) => entry.status === "Pending" || entry.status === "Processing");
+
+        const results = await this.waitForAll<T>(entries.map((entry) => entry.id), options);
+        return results.map((result, i) => ({ ...result, entry: entries[i] as TaskJournalEntry }));
+    }
+
+    /**
+     * Updates the journal entry of a task that reached a new status, or removes it once the task
+     * has completed or failed. Failures are reported through `onJournalError` and never thrown.
+     * @param id The task identifier.
+     * @param status The new status.
+     * @param error The failure reason, if any.
+     * @returns A promise that resolves when the entry is written or the write has failed.
+     * @private
+     */
+    private async journalStatus(id: string, status: TaskState["status"], error?: string | null): Promise<void> {
+        const journal = this.sdk.journal;
+        if (!journal) return;
+
+        try {
+            const entry = await journal.get(id);
+            if (!entry) return;
+
+            if (status === "Completed" || status === "Failed") {
+                await journal.delete(id);
+            } else if (entry.status !== status || entry.error !== error) {
+                await journal.put({ ...entry, status, error, updatedAt: new Date().toISOString() });
+            }
+        } catch (cause) {
+            this.journalError(cause);
+        }
+    }
+
+    /**
+     * Reports a failed journal operation through the client's `onJournalError` callback.
+     * @param cause The error thrown by the journal.
+     * @private
+     */
+    private journalError(cause: unknown): void {
+        const error = cause instanceof Error ? cause : new CludzError(`Task journal operation failed: ${cause}`, { cause });
+        try {
+            this.sdk.onJournalError?.(error);
+        } catch {
+            // A failing error callback must not fail the task it reports on.
+        }
+    }
+
+    /**
+     * Polls a task and yields its state every time the status, progress or message changes.
+     * The polling interval starts at `interval` and grows by `backoff` (up to `maxInterval`)
+     * while nothing changes, then resets as soon as the task reports progress.
+     * @template T The expected type of the task result data. Defaults to TaskData.
+     * @param id The unique task identifier.
+     * @param options Polling intervals, overall timeout, abort signal and retry override.
+     * @returns An async generator of task states, ending after the "Completed" or "Failed" state.
+     * @throws TaskTimeoutError if the task does not finish within the timeout.
+     * @throws AbortError if the signal aborts while waiting.
+     */
+    public async *watch<T = TaskData>(id: string, options: WaitOptions = {}): AsyncGenerator<TaskState<T>, void, undefined> {
+        const { interval = 1000, backoff = 1.5, timeout = 60000, signal, retry } = options;
+        const maxInterval = Math.max(interval, options.maxInterval ?? 10000);
+
+        const start = Date.now();
+        let delay = interval;
+        let last: string | undefined;
+
+        while (Date.now() - start < timeout) {
+            const resp = await this.get<T>(id, { signal, retry });
+            const task = resp.data;
+
+            const key = `${task.status}|${task.progress}|${task.message}`;
+            if (key !== last) {
+                last = key;
+                delay = interval;
+                await this.journalStatus(id, task.status, task.error);
+                yield task;
+            } else {
+                delay = Math.min(delay * backoff, maxInterval);
+            }
+
+            if (task.status === "Completed" || task.status === "Failed") {
+                return;
+            }
+
+            const remaining = timeout - (Date.now() - start);
+            await sleep(Math.max(0, Math.min(delay, remaining)), signal);
+        }
+
+        throw new TaskTimeoutError(id, timeout);
     }
 
     /**
      * Polls a task until it reaches a "Completed" or "Failed" state.
      * @template T The expected type of the task result data. Defaults to TaskData.
      * @param id The unique task identifier.
-     * @param interval Polling interval in milliseconds. Defaults to 1000.
-     * @param timeout Maximum time to wait in milliseconds. Defaults to 60000.
+     * @param options Polling intervals, overall timeout, abort signal and retry override.
      * @returns A promise that resolves to the final task state.
-     * @throws Error if the task fails or times out.
+     * @throws TaskFailedError if the task fails.
+     * @throws TaskTimeoutError if the task does not finish within the timeout.
+     * @throws AbortError if the signal aborts while waiting.
+     */
+    public waitFor<T = TaskData>(id: string, options?: WaitOptions): Promise<TaskState<T>>;
+    /**
+     * Polls a task until it reaches a "Completed" or "Failed" state.
+     * @deprecated Pass a `WaitOptions` object instead.
+     * @param id The unique task identifier.
+     * @param interval Initial polling interval in milliseconds. Defaults to 1000.
+     * @param timeout Maximum time to wait in milliseconds. Defaults to 60000.
      */
+    public waitFor<T = TaskData>(id: string, interval?: number, timeout?: number): Promise<TaskState<T>>;
     public async waitFor<T = TaskData>(
         id: string,
-        interval: number = 1000,
-        timeout: number = 60000
+        intervalOrOptions: number | WaitOptions = {},
+        legacyTimeout?: number
     ): Promise<TaskState<T>> {
-        const start = Date.now();
-        
-        while (Date.now() - start < timeout) {
-            const resp = await this.get(id);
-            const task = resp.data;
+        const options: WaitOptions = typeof intervalOrOptions === "number"
+            ? { interval: intervalOrOptions, timeout: legacyTimeout }
+            : intervalOrOptions;
 
+        for await (const task of this.watch<T>(id, options)) {
             if (task.status === "Completed") {
-                return task as TaskState<T>;
+                return task;
             }
 
             if (task.status === "Failed") {
-                throw new Error(task.message || task.error || "Task failed");
+                throw new TaskFailedError(task);
+            }
+        }
+
+        // watch() only ends on a terminal state or throws, so this is unreachable.
+        throw new TaskTimeoutError(id, options.timeout ?? 60000);
+    }
+
+    /**
+     * Waits for every task to settle. Tasks are polled by a shared scheduler so at most
+     * `concurrency` status requests are in flight, and a failing task does not stop the others.
+     * @template T The expected type of the task result data. Defaults to TaskData.
+     * @param ids The task identifiers.
+     * @param options Polling intervals, overall timeout, concurrency cap, progress callback and abort signal.
+     * @returns A promise that resolves to one settled result per task, in the same order as `ids`.
+     * @throws AbortError if the signal aborts while waiting.
+     */
+    public async waitForAll<T = TaskData>(ids: string[], options: BatchWaitOptions = {}): Promise<TaskSettledResult<T>[]> {
+        const results = await this.runBatch<T>(ids, options, false);
+        return ids.map((id) => results.get(id) as TaskSettledResult<T>);
+    }
+
+    /**
+     * Waits until the first task in the list settles, then stops polling the rest.
+     * @template T The expected type of the task result data. Defaults to TaskData.
+     * @param ids The task identifiers.
+     * @param options Polling intervals, overall timeout, concurrency cap, progress callback and abort signal.
+     * @returns A promise that resolves to the first settled result (completed, failed, or timed out if none finished in time).
+     * @throws ValidationError if `ids` is empty.
+     * @throws AbortError if the signal aborts while waiting.
+     */
+    public async waitForAny<T = TaskData>(ids: string[], options: BatchWaitOptions = {}): Promise<TaskSettledResult<T>> {
+        if (ids.length === 0) throw new ValidationError("At least one task ID is required");
+
+        const results = await this.runBatch<T>(ids, options, true);
+        const settled = [...results.values()];
+        return settled.find((r) => r.status !== "timeout") ?? settled[0] as TaskSettledResult<T>;
+    }
+
+    /**
+     * Shared scheduler behind waitForAll and waitForAny.
+     * Each worker picks the idle task whose next poll is due soonest, so polling is
+     * spread across the batch and adapts per task like `watch()` does.
+     * @param ids The task identifiers.
+     * @param options Batch wait options.
+     * @param stopOnFirst Whether to stop as soon as one task settles.
+     * @returns A promise that resolves to the settled results, keyed by task ID.
+     * @private
+     */
+    private async runBatch<T>(ids: string[], options: BatchWaitOptions, stopOnFirst: boolean): Promise<Map<string, TaskSettledResult<T>>> {
+        const { interval = 1000, backoff = 1.5, timeout = 60000, concurrency = 5, retry, onProgress } = options;
+        const maxInterval = Math.max(interval, options.maxInterval ?? 10000);
+
+        interface Entry { id: string; delay: number; nextAt: number; busy: boolean; key?: string; state?: TaskState<T> }
+
+        const entries: Entry[] = [...new Set(ids)].map((id) => ({ id, delay: interval, nextAt: 0, busy: false }));
+        const pending = new Set(entries);
+        const results = new Map<string, TaskSettledResult<T>>();
+        const start = Date.now();
+
+        // Aborted internally once the batch is done so sleeping workers wake up immediately.
+        const stop = new AbortController();
+        const signal = options.signal ? AbortSignal.any([options.signal, stop.signal]) : stop.signal;
+
+        const report = () => {
+            if (!onProgress) return;
+            const settled = [...results.values()];
+            const progressSum = entries.reduce((sum, e) => sum + (results.has(e.id) ? 100 : e.state?.progress ?? 0), 0);
+            onProgress({
+                total: entries.length,
+                completed: settled.filter((r) => r.status === "completed").length,
+                failed: settled.filter((r) => r.status === "failed").length,
+                timedOut: settled.filter((r) => r.status === "timeout").length,
+                pending: pending.size,
+                percent: entries.length ? progressSum / entries.length : 100,
+            });
+        };
+
+        const settle = (entry: Entry, result: TaskSettledResult<T>) => {
+            pending.delete(entry);
+            results.set(entry.id, result);
+            if (stopOnFirst || pending.size === 0) stop.abort();
+        };
+
+        const worker = async () => {
+            while (!stop.signal.aborted) {
+                const entry = [...pending].filter((e) => !e.busy).sort((a, b) => a.nextAt - b.nextAt)[0];
+                if (!entry) return;
+
+                const remaining = timeout - (Date.now() - start);
+                if (remaining <= 0) return;
+
+                entry.busy = true;
+                try {
+                    await sleep(Math.max(0, Math.min(entry.nextAt - Date.now(), remaining)), signal);
+                    if (entry.nextAt > Date.now()) continue;
+
+                    const task = (await this.get<T>(entry.id, { signal, retry })).data;
+                    entry.state = task;
+
+                    const key = `${task.status}|${task.progress}|${task.message}`;
+                    const changed = key !== entry.key;
+                    entry.key = key;
+                    entry.delay = changed ? interval : Math.min(entry.delay * backoff, maxInterval);
+                    entry.nextAt = Date.now() + entry.delay;
+
+                    if (changed) await this.journalStatus(entry.id, task.status, task.error);
+
+                    if (task.status === "Completed") {
+                        settle(entry, { id: entry.id, status: "completed", state: task });
+                    } else if (task.status === "Failed") {
+                        settle(entry, { id: entry.id, status: "failed", state: task, error: new TaskFailedError(task) });
+                    }
+
+                    if (changed) report();
+                } catch (error) {
+                    if (signal.aborted) return;
+                    settle(entry, { id: entry.id, status: "failed", state: entry.state, error: error as Error });
+                    // A task the server no longer knows can never be resumed; other errors may be transient.
+                    if (error instanceof NotFoundError) {
+                        await this.journalStatus(entry.id, "Failed", error.message);
+                    }
+                    report();
+                } finally {
+                    entry.busy = false;
+                }
+            }
+        };
+
+        const workers = Math.max(1, Math.min(concurrency, entries.length));
+        await Promise.all(Array.from({ length: workers }, worker));
+
+        if (options.signal?.aborted) {
+            throw new AbortError(undefined, { cause: options.signal.reason });
+        }
+
+        if (!stopOnFirst || results.size === 0) {
+            for (const entry of pending) {
+                results.set(entry.id, {
+                    id: entry.id,
+                    status: "timeout",
+                    state: entry.state,
+                    error: new TaskTimeoutError(entry.id, timeout),
+                });
+            }
+            if (pending.size > 0) {
+                pending.clear();
+                report();
+            }
+        }
+
+        return results;
+    }
+}
+
+/**
+ * Handle to a background task started by the SDK.
+ * It keeps the shape of the original `ApiResponse<TaskResult>` and adds waiting,
+ * events and async iteration. All consumers of a handle share a single poller.
+ * @template T The type of the result data when the task is completed.
+ */
+export class TaskHandle<T = TaskData> implements ApiResponse<TaskResult> {
+    /** HTTP status code of the call that started the task. */
+    public readonly statusCode: number;
+    /** Short description of the status. */
+    public readonly statusMessage: string;
+    /** Detailed message from the server. */
+    public readonly message: string;
+    /** The task information returned when the task was started. */
+    public readonly data: TaskResult;
+    /** The most recent state seen while polling, if any. */
+    public state?: TaskState<T>;
+
+    private readonly listeners = new Map<keyof TaskEvents<T>, Set<(...args: any[]) => void>>();
+    private readonly subscribers = new Set<(state: TaskState<T>) => void>();
+    private polling?: Promise<TaskState<T>>;
+
+    /** @internal */
+    constructor(
+        private readonly tasks: Tasks,
+        response: ApiResponse<TaskResult>,
+        private readonly defaults: WaitOptions = {}
+    ) {
+        this.statusCode = response.statusCode;
+        this.statusMessage = response.statusMessage;
+        this.message = response.message;
+        this.data = response.data;
+    }
+
+    /** The unique task identifier. */
+    get id(): string {
+        return this.data.taskId;
+    }
+
+    /**
+     * Registers a listener. Listeners are notified while the handle is being waited on or iterated.
+     * @param event The event name.
+     * @param listener The callback to invoke.
+     * @returns The handle, for chaining.
+     */
+    on<E extends keyof TaskEvents<T>>(event: E, listener: TaskEvents<T>[E]): this {
+        let set = this.listeners.get(event);
+        if (!set) this.listeners.set(event, (set = new Set()));
+        set.add(listener);
+        return this;
+    }
+
+    /**
+     * Removes a previously registered listener.
+     * @param event The event name.
+     * @param listener The callback to remove.
+     * @returns The handle, for chaining.
+     */
+    off<E extends keyof TaskEvents<T>>(event: E, listener: TaskEvents<T>[E]): this {
+        this.listeners.get(event)?.delete(listener);
+        return this;
+    }
+
+    /**
+     * Waits until the task completes. Options only apply if polling has not started yet.
+     * @param options Polling intervals, overall timeout, abort signal and retry override.
+     * @returns A promise that resolves to the final task state.
+     * @throws TaskFailedError if the task fails.
+     * @throws TaskTimeoutError if the task does not finish within the timeout.
+     * @throws AbortError if the signal aborts while waiting.
+     */
+    wait(options: WaitOptions = {}): Promise<TaskState<T>> {
+        if (!this.polling) {
+            this.polling = this.poll({ ...this.defaults, ...options });
+            // Failures are reported through wait(), iteration and the "failed" event.
+            this.polling.catch(() => {});
+        }
+        return this.polling;
+    }
+
+    /**
+     * Iterates over task states, yielding only when the status, progress or message changes.
+     * Iteration ends after the "Completed" or "Failed" state.
+     * @param options Polling options, applied only if polling has not started yet.
+     * @returns An async generator of task states.
+     * @throws TaskTimeoutError if the task does not finish within the timeout.
+     * @throws AbortError if the signal aborts while waiting.
+     */
+    async *watch(options: WaitOptions = {}): AsyncGenerator<TaskState<T>, void, undefined> {
+        const queue: TaskState<T>[] = this.state ? [this.state] : [];
+        let notify: (() => void) | undefined;
+        let settled = false;
+        let failure: unknown;
+
+        const subscriber = (state: TaskState<T>) => {
+            queue.push(state);
+            notify?.();
+        };
+        this.subscribers.add(subscriber);
+
+        this.wait(options).then(
+            () => { settled = true; notify?.(); },
+            (error) => { settled = true; failure = error; notify?.(); }
+        );
+
+        try {
+            while (true) {
+                const next = queue.shift();
+                if (next) {
+                    yield next;
+                    continue;
+                }
+                if (settled) break;
+                await new Promise<void>((resolve) => (notify = resolve));
+                notify = undefined;
+            }
+
+            if (failure && !(failure instanceof TaskFailedError)) throw failure;
+        } finally {
+            this.subscribers.delete(subscriber);
+        }
+    }
+
+    /**
+     * Iterates over task states with the handle's default options.
+     * @returns An async iterator of task states.
+     */
+    [Symbol.asyncIterator](): AsyncIterator<TaskState<T>> {
+        return this.watch();
+    }
+
+    /**
+     * Runs the shared poller and dispatches events for every state change.
+     * @param options The wait options.
+     * @returns A promise that resolves to the final task state.
+     * @private
+     */
+    private async poll(options: WaitOptions): Promise<TaskState<T>> {
+        for await (const task of this.tasks.watch<T>(this.id, options)) {
+            const previous = this.state;
+            this.state = task;
+
+            for (const subscriber of this.subscribers) subscriber(task);
+
+            if (!previous || previous.status !== task.status) this.emit("status", task);
+            if (!previous || previous.progress !== task.progress || previous.message !== task.message) {
+                this.emit("progress", task);
             }
 
-            await new Promise((resolve) => setTimeout(resolve, interval));
+            if (task.status === "Completed") {
+                this.emit("completed", task);
+                return task;
+            }
+
+            if (task.status === "Failed") {
+                const error = new TaskFailedError(task);
+                this.emit("failed", error);
+                throw error;
+            }
         }
 
-        throw new Error(`Task timeout after ${timeout}ms`);
+        throw new TaskTimeoutError(this.id, options.timeout ?? 60000);
+    }
+
+    /**
+     * Invokes every listener registered for an event. A listener that throws is reported through
+     * the "error" event, so it cannot stop polling or fail the wait.
+     * @param event The event name.
+     * @param args The event payload.
+     * @private
+     */
+    private emit<E extends keyof TaskEvents<T>>(event: E, ...args: Parameters<TaskEvents<T>[E]>): void {
+        this.listeners.get(event)?.forEach((listener) => {
+            try {
+                listener(...args);
+            } catch (error) {
+                // An error thrown by an "error" listener has nowhere left to go.
+                if (event !== "error") this.emit("error", listenerError(event, error));
+            }
+        });
     }
 }
+
+/**
+ * Wraps an error thrown by a TaskHandle listener in a CludzError.
+ * @param event The event the listener was registered for.
+ * @param error The thrown value.
+ * @returns The error itself if it is a CludzError, otherwise a CludzError caused by it.
+ * @private
+ */
+function listenerError(event: string, error: unknown): CludzError {
+    if (error instanceof CludzError) return error;
+    const message = (error as Error)?.message ?? String(error);
+    return new CludzError(`A "${event}" listener threw: ${message}`, { cause: error });
+}
@@ -1,5 +1,6 @@
 import type { Cludz } from "../index";
-import type { ApiResponse, WebCheckResult, DnsResult, SslResult } from "../types";
+import { ImageResult } from "../binary";
+import type { ApiResponse, WebCheckResult, DnsResult, SslResult, CallOptions } from "../types";
 
 /**
  * Options for barcode generation.
@@ -25,73 +26,85 @@ export class Tools {
     /**
      * Performs a web connectivity check on a URL.
      * @param url The URL to check.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves to the web check results.
      */
-    async webCheck(url: string): Promise<ApiResponse<WebCheckResult>> {
+    async webCheck(url: string, options: CallOptions = {}): Promise<ApiResponse<WebCheckResult>> {
         return this.sdk._request("/v1/tools/web-check", {
-            query: { url }
+            query: { url },
+            ...options
         }) as Promise<ApiResponse<WebCheckResult>>;
     }
 
     /**
      * Retrieves DNS records for a specific domain.
      * @param domain The domain name to query.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves to the DNS results.
      */
-    async dns(domain: string): Promise<ApiResponse<DnsResult>> {
+    async dns(domain: string, options: CallOptions = {}): Promise<ApiResponse<DnsResult>> {
         return this.sdk._request("/v1/tools/dns", {
-            query: { domain }
+            query: { domain },
+            ...options
         }) as Promise<ApiResponse<DnsResult>>;
     }
 
     /**
      * Retrieves SSL certificate information for a domain.
      * @param domain The domain name to query.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves to the SSL information.
      */
-    async ssl(domain: string): Promise<ApiResponse<SslResult>> {
+    async ssl(domain: string, options: CallOptions = {}): Promise<ApiResponse<SslResult>> {
         return this.sdk._request("/v1/tools/ssl", {
-            query: { domain }
+            query: { domain },
+            ...options
         }) as Promise<ApiResponse<SslResult>>;
     }
 
     /**
      * Retrieves OpenGraph metadata for a given URL.
      * @param url The URL to analyze.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
      * @returns A promise that resolves to the metadata.
      */
-    async meta(url: string): Promise<ApiResponse> {
+    async meta(url: string, options: CallOptions = {}): Promise<ApiResponse> {
         return this.sdk._request("/v1/tools/meta", {
-            query: { url }
+            query: { url },
+            ...options
         }) as Promise<ApiResponse>;
     }
 
     /**
      * Generates a QR Code image.
      * @param text The text or URL to encode in the QR code.
-     * @returns A promise that resolves to a Response object containing the image.
+     * @param options Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to the generated image.
      */
-    async qr(text: string): Promise<Response> {
-        return this.sdk._request("/v1/tools/qr", {
-            query: { text }
-        }) as Promise<Response>;
+    async qr(text: string, options: CallOptions = {}): Promise<ImageResult> {
+        return ImageResult.from(await this.sdk._request("/v1/tools/qr", {
+            query: { text },
+            ...options
+        }));
     }
 
     /**
      * Generates a Barcode image.
      * @param text The text to encode in the barcode.
      * @param options Configuration options for barcode generation.
-     * @returns A promise that resolves to a Response object containing the image.
+     * @param callOptions Per-call options such as an abort signal, timeout or retry override.
+     * @returns A promise that resolves to the generated image.
      */
-    async barcode(text: string, options: BarcodeOptions = {}): Promise<Response> {
-        return this.sdk._request("/v1/tools/barcode", {
+    async barcode(text: string, options: BarcodeOptions = {}, callOptions: CallOptions = {}): Promise<ImageResult> {
+        return ImageResult.from(await this.sdk._request("/v1/tools/barcode", {
             query: {
                 text,
                 type: options.type,
                 show_text: options.showText ?? true,
                 scale: options.scale,
                 height: options.height
-            }
-        }) as Promise<Response>;
+            },
+            ...callOptions
+        }));
     }
 }
@@ -0,0 +1,309 @@
+import type { Storage } from "./storage";
+import { CludzError } from "../errors";
+import { sleep } from "../http";
+import { readJsonFile, writeJsonFile } from "../journal";
+import type { StorageChange, StorageEntry, StorageWatchOptions } from "../types";
+
+/**
+ * Events emitted by a StorageWatcher.
+ */
+export interface StorageWatchEvents {
+    /** An entry appeared. */
+    added: (change: StorageChange) => void;
+    /** A file's size, modification time or checksum changed. */
+    modified: (change: StorageChange) => void;
+    /** An entry disappeared. */
+    removed: (change: StorageChange) => void;
+    /** A file moved to another path with the same content. */
+    renamed: (change: StorageChange) => void;
+    /** Any of the changes above. */
+    change: (change: StorageChange) => void;
+    /** The first scan finished and the watcher is tracking changes. */
+    ready: () => void;
+    /** A scan, a snapshot write or another listener failed. The watcher keeps polling. */
+    error: (error: CludzError) => void;
+}
+
+/**
+ * Persisted snapshot of a watched directory.
+ * @private
+ */
+interface WatchState {
+    version: 1;
+    path: string;
+    recursive: boolean;
+    entries: Record<string, StorageEntry>;
+}
+
+/**
+ * Watches a storage directory by polling it and comparing snapshots.
+ * Create one with `storage.watch()`; it starts polling right away and runs until `close()` is called or the signal aborts.
+ */
+export class StorageWatcher {
+    /** The watched directory. */
+    public readonly path: string;
+
+    private readonly listeners = new Map<keyof StorageWatchEvents, Set<(...args: any[]) => void>>();
+    private readonly subscribers = new Set<(change?: StorageChange) => void>();
+    private readonly stop = new AbortController();
+    private readonly running: Promise<void>;
+    private readonly started: Promise<void>;
+    private markReady: () => void = () => {};
+    private snapshot?: Map<string, StorageEntry>;
+
+    /** @internal */
+    constructor(private storage: Storage, path: string, private options: StorageWatchOptions = {}) {
+        this.path = path.startsWith("/") ? path : `/${path}`;
+        this.started = new Promise<void>((resolve) => (this.markReady = resolve));
+
+        if (options.signal?.aborted) this.stop.abort();
+        options.signal?.addEventListener("abort", () => this.close(), { once: true });
+
+        this.running = this.run().catch((error) => this.emit("error", toCludzError(error)));
+    }
+
+    /** Whether the watcher has stopped polling. */
+    get closed(): boolean {
+        return this.stop.signal.aborted;
+    }
+
+    /**
+     * Registers a listener.
+     * @param event The event name.
+     * @param listener The callback to invoke.
+     * @returns The watcher, for chaining.
+     */
+    on<E extends keyof StorageWatchEvents>(event: E, listener: StorageWatchEvents[E]): this {
+        let set = this.listeners.get(event);
+        if (!set) this.listeners.set(event, (set = new Set()));
+        set.add(listener);
+        return this;
+    }
+
+    /**
+     * Removes a previously registered listener.
+     * @param event The event name.
+     * @param listener The callback to remove.
+     * @returns The watcher, for chaining.
+     */
+    off<E extends keyof StorageWatchEvents>(event: E, listener: StorageWatchEvents[E]): this {
+        this.listeners.get(event)?.delete(listener);
+        return this;
+    }
+
+    /**
+     * Waits for the first scan to finish.
+     * @returns A promise that resolves once the watcher is tracking changes, or when it is closed before that.
+     */
+    ready(): Promise<void> {
+        return this.started;
+    }
+
+    /**
+     * Stops polling. Iterators over the watcher end once their buffered changes are consumed.
+     * @returns A promise that resolves when the poll in progress, if any, has finished.
+     */
+    async close(): Promise<void> {
+        this.stop.abort();
+        await this.running;
+    }
+
+    /**
+     * Iterates over changes detected from now on, until the watcher is closed.
+     * @returns An async generator of changes.
+     */
+    async *changes(): AsyncGenerator<StorageChange, void, undefined> {
+        const queue: StorageChange[] = [];
+        let notify: (() => void) | undefined;
+        let ended = this.closed;
+
+        const subscriber = (change?: StorageChange) => {
+            if (change) queue.push(change);
+            else ended = true;
+            notify?.();
+        };
+        this.subscribers.add(subscriber);
+
+        try {
+            while (true) {
+                const next = queue.shift();
+                if (next) {
+                    yield next;
+                    continue;
+                }
+                if (ended) break;
+                await new Promise<void>((resolve) => (notify = resolve));
+                notify = undefined;
+            }
+        } finally {
+            this.subscribers.delete(subscriber);
+        }
+    }
+
+    /**
+     * Iterates over changes detected from now on, until the watcher is closed.
+     * @returns An async iterator of changes.
+     */
+    [Symbol.asyncIterator](): AsyncIterator<StorageChange> {
+        return this.changes();
+    }
+
+    /**
+     * Polls the directory until the watcher is closed.
+     * @private
+     */
+    private async run(): Promise<void> {
+        try {
+            await this.restore().catch((error) => this.emit("error", error));
+
+            while (!this.closed) {
+                await this.poll();
+                this.markReady();
+                await sleep(Math.max(0, this.options.interval ?? 5000), this.stop.signal).catch(() => {});
+            }
+        } finally {
+            this.stop.abort();
+            this.markReady();
+            for (const subscriber of this.subscribers) subscriber(undefined);
+        }
+    }
+
+    /**
+     * Takes a snapshot, reports the differences from the previous one, and persists it.
+     * @private
+     */
+    private async poll(): Promise<void> {
+        const { recursive, exclude, retry, timeout } = this.options;
+        const current = new Map<string, StorageEntry>();
+
+        try {
+            const walk = this.storage.walk(this.path, {
+                maxDepth: recursive ? Infinity : 1,
+                exclude,
+                retry,
+                timeout,
+                signal: this.stop.signal,
+            });
+            for await (const entry of walk) current.set(entry.path, entry);
+        } catch (error: any) {
+            if (!this.closed) this.emit("error", toCludzError(error));
+            return;
+        }
+
+        const previous = this.snapshot;
+        this.snapshot = current;
+        const changes = previous ? diffSnapshots(previous, current) : [];
+
+        if (!previous || changes.length) {
+            await this.persist().catch((error) => this.emit("error", error));
+        }
+
+        for (const change of changes) {
+            this.emit(change.type, { ...change });
+            this.emit("change", { ...change });
+            for (const subscriber of this.subscribers) subscriber({ ...change });
+        }
+    }
+
+    /**
+     * Loads the snapshot from the state file, if it was saved for the same directory.
+     * @private
+     */
+    private async restore(): Promise<void> {
+        if (!this.options.state) return;
+
+        const state = await readJsonFile<WatchState>(this.options.state, "storage watch state");
+        if (state?.version === 1 && state.path === this.path && state.recursive === !!this.options.recursive) {
+            this.snapshot = new Map(Object.entries(state.entries ?? {}));
+        }
+    }
+
+    /**
+     * Writes the current snapshot to the state file.
+     * @private
+     */
+    private async persist(): Promise<void> {
+        if (!this.options.state || !this.snapshot) return;
+
+        const state: WatchState = {
+            version: 1,
+            path: this.path,
+            recursive: !!this.options.recursive,
+            entries: Object.fromEntries(this.snapshot),
+        };
+        await writeJsonFile(this.options.state, state, "storage watch state");
+    }
+
+    /**
+     * Invokes every listener registered for an event. A listener that throws is reported through
+     * the "error" event, so it cannot stop the watcher or the other listeners.
+     * @param event The event name.
+     * @param args The event payload.
+     * @private
+     */
+    private emit<E extends keyof StorageWatchEvents>(event: E, ...args: Parameters<StorageWatchEvents[E]>): void {
+        this.listeners.get(event)?.forEach((listener) => {
+            try {
+                listener(...args);
+            } catch (error) {
+                // An error thrown by an "error" listener has nowhere left to go.
+                if (event !== "error") this.emit("error", toCludzError(error, `A "${event}" listener threw`));
+            }
+        });
+    }
+}
+
+/**
+ * Wraps an unknown failure in a CludzError.
+ * @param error The failure.
+ * @param context What failed, prepended to the message of errors that are not already a CludzError.
+ * @returns The error itself if it is a CludzError, otherwise a CludzError caused by it.
+ * @private
+ */
+function toCludzError(error: unknown, context?: string): CludzError {
+    if (error instanceof CludzError) return error;
+    const message = (error as Error)?.message ?? String(error);
+    return new CludzError(context ? `${context}: ${message}` : message, { cause: error });
+}
+
+/**
+ * Compares two snapshots of a directory.
+ * @param previous The earlier snapshot, keyed by path.
+ * @param current The later snapshot, keyed by path.
+ * @returns The changes, sorted by path.
+ * @private
+ */
+function diffSnapshots(previous: Map<string, StorageEntry>, current: Map<string, StorageEntry>): StorageChange[] {
+    const changes: StorageChange[] = [];
+    const removed = [...previous.values()].filter((entry) => !current.has(entry.path));
+    const content = (entry: StorageEntry) => `${entry.size}:${entry.checksum}`;
+
+    for (const entry of current.values()) {
+        const before = previous.get(entry.path);
+
+        if (!before) {
+            // A new file with the content of a removed one was moved there.
+            const source = !entry.isDirectory && entry.checksum
+                ? removed.findIndex((old) => !old.isDirectory && content(old) === content(entry))
+                : -1;
+
+            if (source !== -1) {
+                const [old] = removed.splice(source, 1) as [StorageEntry];
+                changes.push({ type: "renamed", path: entry.path, oldPath: old.path, entry });
+            } else {
+                changes.push({ type: "added", path: entry.path, entry });
+            }
+        } else if (
+            !entry.isDirectory &&
+            (before.size !== entry.size || before.modified_at !== entry.modified_at || before.checksum !== entry.checksum)
+        ) {
+            changes.push({ type: "modified", path: entry.path, entry });
+        }
+    }
+
+    for (const entry of removed) {
+        changes.push({ type: "removed", path: entry.path });
+    }
+
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
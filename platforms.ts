@@ -0,0 +1,218 @@
+import { ValidationError } from "./errors";
+import type { DownloadOptions } from "./types";
+
+/**
+ * Identifiers of the platforms supported by the downloader.
+ * Each identifier is also the path segment of its download endpoint (`/v1/{platform}/download`).
+ */
+export type Platform =
+    | "youtube"
+    | "tiktok"
+    | "instagram"
+    | "facebook"
+    | "twitter"
+    | "pinterest"
+    | "soundcloud"
+    | "twitch";
+
+/**
+ * Describes a supported platform and how to recognize its URLs.
+ */
+export interface PlatformDefinition {
+    /** The platform identifier. */
+    id: Platform;
+    /** Human-readable platform name. */
+    name: string;
+    /** Host names served by the platform. Subdomains of these hosts also match. */
+    hosts: string[];
+    /**
+     * Whether the platform has a dedicated downloader client.
+     * Other platforms go through the generic `/v1/{platform}/download` route.
+     */
+    verified: boolean;
+    /**
+     * Rewrites short links and mobile URLs into the canonical form.
+     * @param url The parsed URL, already known to belong to this platform.
+     * @returns The canonical URL.
+     */
+    normalize?(url: URL): URL;
+}
+
+/**
+ * Result of detecting the platform of a media URL.
+ */
+export interface DetectedPlatform {
+    /** The detected platform. */
+    platform: Platform;
+    /** The normalized URL to send to the API. */
+    url: string;
+}
+
+/** Query parameters that only track sharing and never affect the media. */
+const TRACKING_PARAMS = /^(utm_.+|si|feature|igshid|igsh|fbclid|ref|ref_src|ref_url|is_from_webapp|sender_device|_r|_t)$/i;
+
+/**
+ * Registry of every platform supported by the downloader.
+ */
+export const PLATFORMS: Readonly<Record<Platform, PlatformDefinition>> = {
+    youtube: {
+        id: "youtube",
+        name: "YouTube",
+        hosts: ["youtube.com", "youtu.be", "youtube-nocookie.com"],
+        verified: true,
+        normalize(url) {
+            const canonical = new URL("https://www.youtube.com/watch");
+
+            if (url.hostname === "youtu.be") {
+                canonical.searchParams.set("v", url.pathname.slice(1).split("/")[0] || "");
+            } else {
+                const short = /^\/(shorts|embed|live|v)\/([^/?#]+)/.exec(url.pathname);
+                if (!short) {
+                    url.hostname = url.hostname.replace(/^(m|music)\./, "www.");
+                    return url;
+                }
+                canonical.searchParams.set("v", short[2] as string);
+            }
+
+            const start = url.searchParams.get("t");
+            if (start) canonical.searchParams.set("t", start);
+            return canonical;
+        },
+    },
+    tiktok: {
+        id: "tiktok",
+        name: "TikTok",
+        hosts: ["tiktok.com"],
+        verified: true,
+        normalize(url) {
+            url.hostname = url.hostname.replace(/^m\./, "www.");
+            return url;
+        },
+    },
+    instagram: {
+        id: "instagram",
+        name: "Instagram",
+        hosts: ["instagram.com", "instagr.am"],
+        verified: false,
+        normalize(url) {
+            url.hostname = "www.instagram.com";
+            return url;
+        },
+    },
+    facebook: {
+        id: "facebook",
+        name: "Facebook",
+        hosts: ["facebook.com", "fb.watch", "fb.com"],
+        verified: false,
+        normalize(url) {
+            url.hostname = url.hostname.replace(/^(m|mbasic|web)\./, "www.");
+            return url;
+        },
+    },
+    twitter: {
+        id: "twitter",
+        name: "X (Twitter)",
+        hosts: ["twitter.com", "x.com"],
+        verified: false,
+        normalize(url) {
+            url.hostname = url.hostname.replace(/^(mobile|m)\./, "");
+            return url;
+        },
+    },
+    pinterest: {
+        id: "pinterest",
+        name: "Pinterest",
+        hosts: [
+            "pinterest.com",
+            "pin.it",
+            "pinterest.co.uk",
+            "pinterest.ca",
+            "pinterest.de",
+            "pinterest.fr",
+            "pinterest.es",
+            "pinterest.it",
+            "pinterest.jp",
+            "pinterest.com.au",
+            "pinterest.com.mx",
+        ],
+        verified: false,
+    },
+    soundcloud: {
+        id: "soundcloud",
+        name: "SoundCloud",
+        hosts: ["soundcloud.com", "snd.sc"],
+        verified: false,
+        normalize(url) {
+            url.hostname = url.hostname.replace(/^m\./, "");
+            return url;
+        },
+    },
+    twitch: {
+        id: "twitch",
+        name: "Twitch",
+        hosts: ["twitch.tv"],
+        verified: false,
+        normalize(url) {
+            url.hostname = url.hostname.replace(/^m\./, "www.");
+            return url;
+        },
+    },
+};
+
+/**
+ * Checks whether a string is a supported platform identifier.
+ * @param value The value to check.
+ * @returns True if the value names a registered platform.
+ */
+export function isPlatform(value: string): value is Platform {
+    return Object.prototype.hasOwnProperty.call(PLATFORMS, value);
+}
+
+/**
+ * Detects the platform of a media URL and normalizes short links and mobile URLs.
+ * Tracking parameters (e.g., `utm_*`, `si`, `igshid`) are removed.
+ * @param input The media URL.
+ * @returns The detected platform and normalized URL, or undefined if the URL is not supported.
+ */
+export function detectPlatform(input: string): DetectedPlatform | undefined {
+    let url: URL;
+    try {
+        url = new URL(input.trim());
+    } catch {
+        return undefined;
+    }
+
+    if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+
+    const host = url.hostname.toLowerCase();
+    const definition = Object.values(PLATFORMS).find((p) =>
+        p.hosts.some((h) => host === h || host.endsWith(`.${h}`))
+    );
+    if (!definition) return undefined;
+
+    url.protocol = "https:";
+    url.hash = "";
+    for (const key of [...url.searchParams.keys()]) {
+        if (TRACKING_PARAMS.test(key)) url.searchParams.delete(key);
+    }
+
+    const normalized = definition.normalize ? definition.normalize(url) : url;
+    return { platform: definition.id, url: normalized.toString() };
+}
+
+/**
+ * Validates download options and maps them to API query parameters.
+ * @param options The output format, or download options.
+ * @returns The query parameters.
+ * @throws ValidationError if an option is invalid.
+ * @internal
+ */
+export function downloadQuery(options: "mp3" | "mp4" | DownloadOptions = {}): { format: "mp3" | "mp4" } {
+    const { format = "mp4" } = typeof options === "string" ? { format: options } : options;
+
+    if (format !== "mp3" && format !== "mp4") {
+        throw new ValidationError(`Invalid format "${format}". Expected "mp3" or "mp4"`);
+    }
+
+    return { format };
+}
@@ -0,0 +1,260 @@
+import { AbortError, CludzError, ValidationError } from "./errors";
+import type { TransferProgress } from "./types";
+
+/**
+ * Destination for streamed data: a local file path or a web WritableStream.
+ */
+export type StreamTarget = string | WritableStream<Uint8Array>;
+
+/**
+ * Creates a pass-through stream that counts bytes and reports progress.
+ * @param total The expected total size in bytes, if known.
+ * @param onProgress Callback invoked after every chunk.
+ * @returns The counting transform stream.
+ * @internal
+ */
+export function progressStream(
+    total: number | undefined,
+    onProgress?: (progress: TransferProgress) => void
+): TransformStream<Uint8Array, Uint8Array> & { readonly loaded: number } {
+    let loaded = 0;
+
+    const stream = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            loaded += chunk.byteLength;
+            onProgress?.({
+                loaded,
+                total,
+                percent: total ? Math.min(100, (loaded / total) * 100) : undefined,
+            });
+            controller.enqueue(chunk);
+        },
+    });
+
+    return Object.defineProperty(stream, "loaded", { get: () => loaded }) as TransformStream<Uint8Array, Uint8Array> & { readonly loaded: number };
+}
+
+/**
+ * Opens a local file as a web ReadableStream without reading it into memory.
+ * @param path The file path.
+ * @param range Optional byte range to read, with `end` exclusive.
+ * @returns A promise that resolves to the stream and the file's total size.
+ * @throws CludzError if the file cannot be opened.
+ * @internal
+ */
+export async function readFileStream(
+    path: string,
+    range: { start?: number; end?: number } = {}
+): Promise<{ stream: ReadableStream<Uint8Array>; size: number }> {
+    const { createReadStream } = await import("node:fs");
+    const { stat } = await import("node:fs/promises");
+    const { Readable } = await import("node:stream");
+
+    let size: number;
+    try {
+        size = (await stat(path)).size;
+    } catch (error: any) {
+        throw new CludzError(`Failed to read local file path: ${error.message}`, { cause: error });
+    }
+
+    const end = range.end !== undefined ? range.end - 1 : undefined;
+    if (end !== undefined && end < (range.start ?? 0)) {
+        return { stream: new Blob([]).stream(), size };
+    }
+
+    const file = createReadStream(path, { start: range.start, end });
+    return { stream: Readable.toWeb(file) as ReadableStream<Uint8Array>, size };
+}
+
+/**
+ * Converts an upload source into a web ReadableStream.
+ * @param source A file path, web ReadableStream or Node.js readable stream.
+ * @returns A promise that resolves to the stream and, for files, its size.
+ * @throws ValidationError if the source is not a supported stream type.
+ * @throws CludzError if a file cannot be opened.
+ * @internal
+ */
+export async function toWebStream(
+    source: string | ReadableStream<Uint8Array> | NodeJS.ReadableStream
+): Promise<{ stream: ReadableStream<Uint8Array>; size?: number }> {
+    if (typeof source === "string") {
+        return readFileStream(source);
+    }
+
+    if (typeof ReadableStream !== "undefined" && source instanceof ReadableStream) {
+        return { stream: source };
+    }
+
+    if (typeof (source as NodeJS.ReadableStream).pipe === "function") {
+        const { Readable } = await import("node:stream");
+        return { stream: Readable.toWeb(source as import("node:stream").Readable) as ReadableStream<Uint8Array> };
+    }
+
+    throw new ValidationError("Invalid stream source type. Supported: local path string, ReadableStream, or Node.js readable stream.");
+}
+
+/**
+ * Wraps a stream in a single-part multipart/form-data body without buffering it.
+ * @param field The form field name.
+ * @param fileName The file name of the part.
+ * @param body The part's content.
+ * @returns The multipart body and the Content-Type header that describes it.
+ * @internal
+ */
+export function multipartStream(
+    field: string,
+    fileName: string,
+    body: ReadableStream<Uint8Array>
+): { stream: ReadableStream<Uint8Array>; contentType: string } {
+    const boundary = `----CludzFormBoundary${Math.random().toString(16).slice(2)}${Date.now().toString(16)}`;
+    const encoder = new TextEncoder();
+    const safeName = fileName.replace(/["\r\n]/g, "_");
+
+    const head = encoder.encode(
+        `--${boundary}\r\nContent-Disposition: form-data; name="${field}"; filename="${safeName}"\r\n`
+        + "Content-Type: application/octet-stream\r\n\r\n"
+    );
+    const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+    const reader = body.getReader();
+    let started = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (!started) {
+                started = true;
+                controller.enqueue(head);
+                return;
+            }
+
+            const { done, value } = await reader.read();
+            if (done) {
+                controller.enqueue(tail);
+                controller.close();
+            } else {
+                controller.enqueue(value);
+            }
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        },
+    });
+
+    return { stream, contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+/**
+ * Parses a Content-Length header.
+ * @param headers The response headers.
+ * @returns The size in bytes, or undefined if the header is absent or invalid.
+ * @internal
+ */
+export function contentLength(headers: Headers): number | undefined {
+    const value = headers.get("content-length");
+    const size = value !== null ? Number(value) : NaN;
+    return Number.isFinite(size) && size >= 0 ? size : undefined;
+}
+
+/**
+ * Extracts the file name from a Content-Disposition header.
+ * @param headers The response headers.
+ * @returns The file name, or undefined if the header does not name one.
+ * @internal
+ */
+export function dispositionFileName(headers: Headers): string | undefined {
+    const value = headers.get("content-disposition");
+    if (!value) return undefined;
+
+    const encoded = /filename\*\s*=\s*(?:UTF-8'')?([^;]+)/i.exec(value);
+    if (encoded?.[1]) {
+        try {
+            return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ""));
+        } catch {
+            // Fall through to the plain filename parameter.
+        }
+    }
+
+    const plain = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(value);
+    return (plain?.[2] ?? plain?.[1])?.trim() || undefined;
+}
+
+/**
+ * Checks whether a local path refers to a directory: either it ends with a
+ * path separator or it already exists as a directory.
+ * @param path The local path.
+ * @returns A promise that resolves to true if the path is a directory.
+ * @internal
+ */
+export async function isDirectoryPath(path: string): Promise<boolean> {
+    if (/[\\/]$/.test(path)) return true;
+
+    const { stat } = await import("node:fs/promises");
+    try {
+        return (await stat(path)).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Streams a body to a file or WritableStream without buffering it in memory.
+ * Files are written to a temporary `.part` file and renamed once complete,
+ * so an interrupted transfer never leaves a truncated file at `to`.
+ * @param body The readable body to consume.
+ * @param to The destination file path or WritableStream.
+ * @param options Expected size, progress callback and abort signal.
+ * @returns A promise that resolves to the number of bytes written.
+ * @throws AbortError if the signal aborts during the transfer.
+ * @throws CludzError if the destination directory cannot be created or writing fails.
+ * @internal
+ */
+export async function writeStream(
+    body: ReadableStream<Uint8Array>,
+    to: StreamTarget,
+    options: { total?: number; onProgress?: (progress: TransferProgress) => void; signal?: AbortSignal } = {}
+): Promise<number> {
+    const counter = progressStream(options.total, options.onProgress);
+
+    if (typeof to !== "string") {
+        await pipe(body.pipeThrough(counter), to, options.signal);
+        return counter.loaded;
+    }
+
+    const { createWriteStream } = await import("node:fs");
+    const { mkdir, rename, rm } = await import("node:fs/promises");
+    const { dirname } = await import("node:path");
+    const { Writable } = await import("node:stream");
+
+    const partial = `${to}.part`;
+
+    try {
+        await mkdir(dirname(to), { recursive: true });
+        const file = Writable.toWeb(createWriteStream(partial)) as WritableStream<Uint8Array>;
+        await pipe(body.pipeThrough(counter), file, options.signal);
+        await rename(partial, to);
+    } catch (error: any) {
+        // The body is still unread if the directory could not be created; release the connection.
+        if (!body.locked) await body.cancel().catch(() => {});
+        await rm(partial, { force: true }).catch(() => {});
+        if (error instanceof CludzError) throw error;
+        throw new CludzError(`Failed to write ${to}: ${error?.message ?? error}`, { cause: error });
+    }
+
+    return counter.loaded;
+}
+
+/**
+ * Pipes a stream into a writable, converting aborts and I/O failures into SDK errors.
+ * @param source The source stream.
+ * @param destination The destination stream.
+ * @param signal Optional abort signal.
+ * @private
+ */
+async function pipe(source: ReadableStream<Uint8Array>, destination: WritableStream<Uint8Array>, signal?: AbortSignal): Promise<void> {
+    try {
+        await source.pipeTo(destination, { signal });
+    } catch (error: any) {
+        if (error instanceof CludzError) throw error;
+        if (signal?.aborted) throw new AbortError(undefined, { cause: signal.reason });
+        throw new CludzError(`Stream transfer failed: ${error?.message ?? error}`, { cause: error });
+    }
+}
@@ -1,11 +1,159 @@
+import type { Platform } from "./platforms";
+import type { ChecksumAlgorithm } from "./checksum";
+
+/**
+ * Transport settings shared by the Cludz client and Storage.
+ */
+export interface TransportOptions {
+    /** Default retry policy for every request. Pass `false` to disable retries. */
+    retry?: RetryOptions | false;
+    /** Custom fetch implementation (e.g., a proxy-aware or edge-runtime fetch). Defaults to the global `fetch`. */
+    fetch?: FetchLike;
+    /** Ordered middleware chain applied to every request. */
+    middleware?: Middleware[];
+    /** Default timeout for each HTTP request in milliseconds. Disabled when unset or 0. */
+    timeout?: number;
+}
+
+/**
+ * Settings for the client-side rate limiter.
+ */
+export interface RateLimiterOptions {
+    /**
+     * Requests allowed per minute. When omitted, the limit is learned from
+     * `account.me()` or the API's rate limit headers.
+     */
+    requestsPerMinute?: number;
+    /**
+     * Maximum number of requests in flight at once, independent of the rate. Unlimited by default.
+     * A request stays in flight until its response body has been read, so streamed downloads count too.
+     */
+    maxConcurrency?: number;
+}
+
 /**
  * Options for initializing the Cludz client.
  */
-export interface CludzOptions {
+export interface CludzOptions extends TransportOptions {
     /** The base URL of the Cludz API. */
     api: string;
     /** The API key for authentication. */
     key?: string;
+    /**
+     * Enables the client-side rate limiter, which queues requests instead of exceeding the quota.
+     * Pass `true` to learn the quota from the API, or an options object to set it explicitly.
+     */
+    rateLimit?: RateLimiterOptions | boolean;
+    /**
+     * Records every started task so waiting can be resumed after a restart with `tasks.resumePending()`.
+     * Pass a file path to use the built-in JSON file journal, or a custom store.
+     * Entries are removed once their task completes or fails.
+     */
+    journal?: TaskJournalStore | string;
+    /**
+     * Called when the journal cannot be written. Journal writes are best-effort:
+     * a failure never fails the call that started or waited on the task.
+     */
+    onJournalError?: (error: Error) => void;
+    /** Maximum size in bytes of local images uploaded by the Image module. Larger images are rejected before sending. */
+    maxUploadSize?: number;
+}
+
+/**
+ * A fetch-compatible function used to send HTTP requests.
+ */
+export type FetchLike = (input: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Describes an outgoing request as seen by middleware.
+ * `url` and `headers` may be modified in `onRequest` before the request is sent.
+ */
+export interface RequestContext {
+    /** The full request URL. */
+    url: string;
+    /** The HTTP method. */
+    method: string;
+    /** The endpoint or storage path being requested. */
+    endpoint: string;
+    /** Mutable request headers. */
+    headers: Headers;
+    /** The remaining fetch configuration (body, etc.). */
+    init: RequestInit;
+    /** The current attempt number, starting at 1. */
+    attempt: number;
+}
+
+/**
+ * Hooks that run around every HTTP request, in the order they are registered.
+ */
+export interface Middleware {
+    /**
+     * Called before each attempt is sent. May mutate `context.url` and `context.headers`.
+     * Returning a Response skips the network call (e.g., to serve a cached response).
+     */
+    onRequest?(context: RequestContext): void | Response | Promise<void | Response>;
+    /**
+     * Called with the response of each attempt, before error handling.
+     * Returning a Response replaces the one passed to the next middleware.
+     */
+    onResponse?(response: Response, context: RequestContext): void | Response | Promise<void | Response>;
+    /**
+     * Called once with the final error after retries are exhausted.
+     * Returning an Error replaces the one that is thrown.
+     */
+    onError?(error: Error, context: RequestContext): void | Error | Promise<void | Error>;
+}
+
+/**
+ * Configuration for automatic retries with exponential backoff.
+ */
+export interface RetryOptions {
+    /** Maximum number of attempts, including the first one. Defaults to 3. */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds. Defaults to 500. */
+    baseDelay?: number;
+    /** Maximum delay between attempts in milliseconds. Defaults to 30000. */
+    maxDelay?: number;
+    /** Multiplier applied to the delay after each attempt. Defaults to 2. */
+    factor?: number;
+    /** Whether to randomize delays (full jitter) to avoid synchronized retries. Defaults to true. */
+    jitter?: boolean;
+    /** HTTP status codes that trigger a retry. Defaults to 408, 429, 500, 502, 503 and 504. */
+    statusCodes?: number[];
+    /** HTTP methods that may be retried. Defaults to GET, PUT and DELETE. */
+    methods?: string[];
+    /** Whether to retry when no response was received. Defaults to true. */
+    retryNetworkErrors?: boolean;
+}
+
+/**
+ * Per-call options accepted by every public SDK method.
+ */
+export interface CallOptions {
+    /**
+     * Overrides the retry policy for this call.
+     * `false` disables retries, `true` allows retrying a non-idempotent call (e.g., a POST upload
+     * or a downloader call that starts a task).
+     */
+    retry?: RetryOptions | boolean;
+    /** Signal used to cancel the call. Cancelling throws an `AbortError`. */
+    signal?: AbortSignal;
+    /** Timeout for each HTTP request in milliseconds, overriding the client default. Exceeding it throws a `TimeoutError`. */
+    timeout?: number;
+}
+
+/**
+ * Options for waiting on a background task.
+ */
+export interface WaitOptions extends Omit<CallOptions, "timeout"> {
+    /** Initial polling interval in milliseconds. Defaults to 1000. */
+    interval?: number;
+    /** Upper bound for the polling interval in milliseconds. Defaults to 10000. */
+    maxInterval?: number;
+    /** Factor applied to the interval after each poll that reports no change. Defaults to 1.5; use 1 for a fixed interval. */
+    backoff?: number;
+    /** Maximum total time to wait in milliseconds. Defaults to 60000. */
+    timeout?: number;
 }
 
 /**
@@ -26,7 +174,7 @@ export interface ApiResponse<T = any> {
 /**
  * Options for making an internal SDK request.
  */
-export interface RequestOptions {
+export interface RequestOptions extends CallOptions {
     /** The HTTP method to use. */
     method?: "GET" | "POST" | "PUT" | "DELETE";
     /** URL query parameters. */
@@ -35,6 +183,18 @@ export interface RequestOptions {
     body?: any;
 }
 
+/**
+ * Rate limit details reported by the API through response headers.
+ */
+export interface RateLimitInfo {
+    /** Maximum requests allowed in the current window. */
+    limit?: number;
+    /** Requests remaining in the current window. */
+    remaining?: number;
+    /** Seconds remaining until the window resets. */
+    resetInSeconds?: number;
+}
+
 /**
  * Information about the current account and API key.
  */
@@ -135,6 +295,181 @@ export interface YouTubeSearchList {
 export interface DownloadResult {
     /** The URL where the media can be downloaded. */
     download_url: string;
+    /** The actual output format (e.g., "mp4"). */
+    format?: string;
+    /** Duration of the media in seconds. */
+    duration?: number;
+    /** Size of the produced file in bytes. */
+    size?: number;
+}
+
+/**
+ * Options for a media download.
+ */
+export interface DownloadOptions {
+    /** The desired output format ("mp3" or "mp4"). Defaults to "mp4". */
+    format?: "mp3" | "mp4";
+}
+
+/**
+ * Byte progress of an upload or download.
+ */
+export interface TransferProgress {
+    /** Bytes transferred so far. */
+    loaded: number;
+    /** Total bytes expected, if known. */
+    total?: number;
+    /** Percentage transferred (0-100), if the total is known. */
+    percent?: number;
+}
+
+/**
+ * Options for downloading media all the way to a local file or stream.
+ */
+export interface MediaFetchOptions extends CallOptions, DownloadOptions {
+    /**
+     * Where to write the media: a file path, a directory (ending with a separator or already existing),
+     * or a WritableStream. For directories, the file name comes from the server or the download URL.
+     */
+    to: string | WritableStream<Uint8Array>;
+    /** Called as media bytes are received. */
+    onProgress?: (progress: TransferProgress) => void;
+    /** How to wait for the download task. The call's `signal` is used unless one is given here. */
+    wait?: WaitOptions;
+}
+
+/**
+ * Result of downloading media to a local file or stream.
+ */
+export interface MediaFetchResult {
+    /** The path the media was written to, or undefined when writing to a stream. */
+    path?: string;
+    /** Number of bytes written. */
+    size: number;
+    /** The media content type reported by the server. */
+    contentType: string | null;
+    /** The URL the media was downloaded from. */
+    downloadUrl: string;
+    /** The final state of the download task. */
+    task: TaskState<DownloadResult>;
+}
+
+/**
+ * A media URL to download through a DownloadQueue.
+ */
+export interface DownloadQueueItem {
+    /** The media URL. */
+    url: string;
+    /** The platform of the URL. Detected from the URL when omitted. */
+    platform?: Platform;
+    /** The desired output format. Defaults to the queue's format. */
+    format?: "mp3" | "mp4";
+    /** Where to write the media. Defaults to the queue's `to` directory. */
+    to?: string;
+    /** Identifier used to match the item against saved state. Defaults to the platform, URL and format. */
+    key?: string;
+}
+
+/**
+ * Options for a DownloadQueue.
+ */
+export interface DownloadQueueOptions extends CallOptions {
+    /** Default output format for items that do not set one. Defaults to "mp4". */
+    format?: "mp3" | "mp4";
+    /** Maximum number of items processed at once. Defaults to 3. */
+    concurrency?: number;
+    /**
+     * Directory (or file path, per item) to write the media to. When omitted, items complete
+     * as soon as their task does and the report only contains the download URLs.
+     */
+    to?: string;
+    /** Path of a JSON file that records the queue's progress, so an interrupted run can resume. */
+    state?: string;
+    /**
+     * Called when the state file cannot be written. State writes are best-effort:
+     * a failure never fails an item or the run.
+     */
+    onStateError?: (error: Error) => void;
+    /** Whether items that failed in a previous run are tried again. Defaults to false. */
+    retryFailed?: boolean;
+    /** How to wait for each download task. The queue's `signal` is used unless one is given here. */
+    wait?: WaitOptions;
+    /** Called whenever an item starts or settles, with aggregate progress across the queue. */
+    onProgress?: (progress: DownloadQueueProgress) => void;
+    /** Called whenever an item settles. */
+    onItem?: (item: DownloadQueueItemResult) => void;
+}
+
+/**
+ * Aggregate progress of a DownloadQueue.
+ */
+export interface DownloadQueueProgress {
+    /** Total number of items in the queue. */
+    total: number;
+    /** Number of items downloaded successfully. */
+    completed: number;
+    /** Number of items that failed. */
+    failed: number;
+    /** Number of items being processed. */
+    active: number;
+    /** Number of items not processed yet. */
+    pending: number;
+    /** Percentage of items that have settled (0-100). */
+    percent: number;
+}
+
+/**
+ * State and outcome of a single DownloadQueue item.
+ */
+export interface DownloadQueueItemResult {
+    /** The item identifier. */
+    key: string;
+    /** The media URL. */
+    url: string;
+    /** The platform of the URL, once known. */
+    platform?: Platform;
+    /** The output format. */
+    format: "mp3" | "mp4";
+    /** Current status: not started, task started, downloaded, or failed. */
+    status: "pending" | "started" | "completed" | "failed";
+    /** The download task identifier, once started. */
+    taskId?: string;
+    /** The URL of the produced media, once the task completes. */
+    downloadUrl?: string;
+    /** The local path the media was written to. */
+    path?: string;
+    /** Number of bytes written. */
+    size?: number;
+    /** Why the item failed. */
+    error?: string;
+    /** The name of the error class that made the item fail (e.g., "TaskFailedError"). */
+    errorName?: string;
+    /** Number of times the item was attempted, across runs. */
+    attempts: number;
+    /** Whether the outcome was restored from a previous run instead of produced by this one. */
+    resumed?: boolean;
+}
+
+/**
+ * Summary of a DownloadQueue run.
+ */
+export interface DownloadQueueReport {
+    /** Total number of items in the queue. */
+    total: number;
+    /** Number of items downloaded successfully, including those restored from a previous run. */
+    completed: number;
+    /** Number of items that failed. */
+    failed: number;
+    /** Number of items that did not finish. */
+    pending: number;
+    /** Number of settled items restored from a previous run without any request. */
+    resumed: number;
+    /** Number of failed items per error class name. */
+    reasons: Record<string, number>;
+    /** Every item, in the order it was added. */
+    items: DownloadQueueItemResult[];
+    /** How long the run took in milliseconds. */
+    duration: number;
 }
 
 /**
@@ -259,16 +594,100 @@ export interface TaskState<T = TaskData> {
     updated_at: string;
 }
 
+/**
+ * Options for waiting on several background tasks at once.
+ */
+export interface BatchWaitOptions extends WaitOptions {
+    /** Maximum number of status polls in flight at once. Defaults to 5. */
+    concurrency?: number;
+    /** Called whenever any task changes state, with aggregate progress across the batch. */
+    onProgress?: (progress: BatchProgress) => void;
+}
+
+/**
+ * Aggregate progress of a batch of tasks.
+ */
+export interface BatchProgress {
+    /** Total number of tasks in the batch. */
+    total: number;
+    /** Number of tasks that completed successfully. */
+    completed: number;
+    /** Number of tasks that failed. */
+    failed: number;
+    /** Number of tasks that did not finish within the timeout. */
+    timedOut: number;
+    /** Number of tasks still running. */
+    pending: number;
+    /** Average progress percentage across all tasks (0-100). Finished tasks count as 100. */
+    percent: number;
+}
+
+/**
+ * Outcome of a single task in a batch.
+ * @template T The type of the result data when the task is completed.
+ */
+export interface TaskSettledResult<T = TaskData> {
+    /** The task identifier. */
+    id: string;
+    /** How the task ended. */
+    status: "completed" | "failed" | "timeout";
+    /** The last known state of the task, if it was polled successfully at least once. */
+    state?: TaskState<T>;
+    /** Why the task failed or timed out. */
+    error?: Error;
+}
+
+/**
+ * A task recorded in the task journal.
+ */
+export interface TaskJournalEntry {
+    /** The task identifier. */
+    id: string;
+    /** The SDK call that started the task (e.g., "downloader.youtube.download"). */
+    origin: string;
+    /** The parameters passed to that call. */
+    params: Record<string, any>;
+    /** The last known status of the task. */
+    status: TaskState["status"];
+    /** Error message if the task failed. */
+    error?: string | null;
+    /** When the task was recorded (ISO 8601). */
+    createdAt: string;
+    /** When the entry was last updated (ISO 8601). */
+    updatedAt: string;
+}
+
+/**
+ * Pluggable storage backend for the task journal.
+ */
+export interface TaskJournalStore {
+    /** Retrieves a single entry, or undefined if it is not recorded. */
+    get(id: string): Promise<TaskJournalEntry | undefined>;
+    /** Inserts or replaces an entry. */
+    put(entry: TaskJournalEntry): Promise<void>;
+    /** Removes an entry. */
+    delete(id: string): Promise<void>;
+    /** Lists every recorded entry. */
+    list(): Promise<TaskJournalEntry[]>;
+}
+
 /**
  * Options for initializing a Storage instance.
  */
-export interface StorageOptions {
+export interface StorageOptions extends TransportOptions {
     /** The base URL of the Cludz Storage API. */
     api: string;
     /** The storage container identifier. */
     id: string;
     /** The access token for this storage container. */
     token: string;
+    /** Whether uploads and downloads check content against the stored checksum by default. Defaults to false. */
+    verifyTransfers?: boolean;
+    /**
+     * Algorithm used to hash streamed uploads while they are sent, when verification is on.
+     * It should match the algorithm of the server's checksums; otherwise only sizes are compared. Defaults to "sha256".
+     */
+    checksumAlgorithm?: ChecksumAlgorithm;
 }
 
 /**
@@ -288,3 +707,380 @@ export interface FileInfo {
     /** When the item was last modified. */
     modified_at: string;
 }
+
+/**
+ * Per-call options for storage uploads and downloads.
+ */
+export interface StorageVerifyOptions extends CallOptions {
+    /**
+     * Whether to check the content against the size and checksum stored on the server, throwing a
+     * `ChecksumMismatchError` on mismatch. Overrides the client's `verifyTransfers` option.
+     */
+    verify?: boolean;
+}
+
+/**
+ * Options for streamed storage transfers.
+ * Streamed uploads are never retried, since a stream cannot be replayed, and streamed transfers have no timeout
+ * unless `timeout` is set, since large files may take longer than the client's default request timeout.
+ */
+export interface StorageTransferOptions extends StorageVerifyOptions {
+    /** Called as bytes are sent or received. */
+    onProgress?: (progress: TransferProgress) => void;
+}
+
+/**
+ * Options for streaming an upload to storage.
+ */
+export interface StorageUploadStreamOptions extends StorageTransferOptions {
+    /** Total size in bytes, used to report a percentage. Detected automatically for local file paths. */
+    size?: number;
+}
+
+/**
+ * Selects storage entries by path: glob patterns matched against paths relative to the starting directory,
+ * with "/" separators (patterns without a "/" match a name at any depth, e.g., "*.log"), or a predicate.
+ */
+export type StoragePathFilter = string | string[] | ((path: string, isDirectory: boolean) => boolean);
+
+/**
+ * Which way `storage.sync()` copies changes.
+ * - `upload`: make the remote directory match the local one.
+ * - `download`: make the local directory match the remote one.
+ * - `both`: copy missing files both ways; when a file differs, the most recently modified copy wins.
+ */
+export type StorageSyncDirection = "upload" | "download" | "both";
+
+/**
+ * Options for `storage.sync()`.
+ */
+export interface StorageSyncOptions extends CallOptions {
+    /** Which way to copy changes. Defaults to "upload". */
+    direction?: StorageSyncDirection;
+    /** Whether to delete entries on the target side that do not exist on the source. Not allowed with "both". */
+    deleteExtraneous?: boolean;
+    /** Whether to only plan the changes without making them. */
+    dryRun?: boolean;
+    /** Entries to leave alone on both sides. Excluded directories are not descended into. */
+    exclude?: StoragePathFilter;
+    /**
+     * Whether to compare checksums when two files have the same size but different modification times,
+     * so content that is merely re-timestamped is not transferred again. Defaults to true.
+     */
+    checksum?: boolean;
+    /** Maximum number of files transferred at once. Defaults to 4. */
+    concurrency?: number;
+    /**
+     * Path of a JSON file that records every file as it was after it was last synced. Files that have not changed
+     * since on either side are skipped, even when the server reports no checksum and sets its own modification
+     * time on upload. Without it, such files are uploaded again on every sync.
+     */
+    state?: string;
+    /** Called whenever a change is made, fails, or (in a dry run) is planned. */
+    onItem?: (item: StorageSyncItem) => void;
+}
+
+/**
+ * A single change made (or planned) by `storage.sync()`.
+ */
+export interface StorageSyncItem {
+    /** Path relative to the synced directories, with "/" separators. */
+    path: string;
+    /** What is done to the entry. */
+    action: "upload" | "download" | "mkdir" | "delete";
+    /** The side that is changed. */
+    target: "local" | "remote";
+    /**
+     * Why the entry is changed: it is missing on the target, its size, modification time or checksum differs,
+     * or it does not exist on the source (`deleteExtraneous`).
+     */
+    reason: "missing" | "size" | "modified" | "checksum" | "extraneous";
+    /** Whether the entry is a directory. */
+    isDirectory: boolean;
+    /** Size of the transferred file in bytes. */
+    size?: number;
+    /** Whether the change is only planned (dry run), was made, or failed. */
+    status: "planned" | "done" | "failed";
+    /** Why the change failed. */
+    error?: Error;
+}
+
+/**
+ * Summary of `storage.sync()`.
+ */
+export interface StorageSyncReport {
+    /** The direction that was synced. */
+    direction: StorageSyncDirection;
+    /** Whether this was a dry run, in which case nothing was changed. */
+    dryRun: boolean;
+    /** Every change, in the order it was planned. */
+    items: StorageSyncItem[];
+    /** Number of files uploaded. */
+    uploaded: number;
+    /** Number of files downloaded. */
+    downloaded: number;
+    /** Number of directories created. */
+    created: number;
+    /** Number of files and directories deleted. */
+    deleted: number;
+    /** Number of files that were already identical on both sides. */
+    unchanged: number;
+    /** Number of changes that failed. */
+    failed: number;
+    /** Total bytes transferred. */
+    bytes: number;
+    /** How long the sync took in milliseconds. */
+    duration: number;
+}
+
+/**
+ * Information about a storage entry, including its full path.
+ */
+export interface StorageStats extends FileInfo {
+    /** Full path of the entry in storage. */
+    path: string;
+}
+
+/**
+ * A storage entry found by a recursive listing.
+ */
+export interface StorageEntry extends StorageStats {
+    /** How deep the entry is below the starting directory: 1 for its direct children. */
+    depth: number;
+}
+
+/**
+ * Options for recursive storage listings.
+ */
+export interface StorageWalkOptions extends CallOptions {
+    /** How many levels to descend: 1 lists only the starting directory. Unlimited by default. */
+    maxDepth?: number;
+    /** Maximum number of directories listed at once. Defaults to 4. */
+    concurrency?: number;
+    /** Entries to skip. Excluded directories are not descended into. */
+    exclude?: StoragePathFilter;
+}
+
+/**
+ * Options for `storage.find()`. Every criterion that is set must match.
+ */
+export interface StorageFindOptions extends StorageWalkOptions {
+    /** Glob patterns the path must match, relative to the starting directory (patterns without a "/" match the name). */
+    glob?: string | string[];
+    /** Whether to find only files or only directories. */
+    type?: "file" | "directory";
+    /** Minimum size in bytes. */
+    minSize?: number;
+    /** Maximum size in bytes. */
+    maxSize?: number;
+    /** Only entries modified after this time. */
+    modifiedAfter?: Date | string | number;
+    /** Only entries modified before this time. */
+    modifiedBefore?: Date | string | number;
+}
+
+/**
+ * Aggregate size of a storage directory, as returned by `storage.du()`.
+ */
+export interface StorageUsage {
+    /** The directory path. */
+    path: string;
+    /** Total size of every file below the directory, in bytes. */
+    size: number;
+    /** Number of files below the directory. */
+    files: number;
+    /** Number of directories below the directory. */
+    directories: number;
+    /** Total size below each direct child of the directory, in bytes, keyed by name. */
+    children: Record<string, number>;
+}
+
+/**
+ * Options for `storage.mkdir()`.
+ */
+export interface StorageMkdirOptions extends CallOptions {
+    /** Whether to create missing parent directories, and succeed if the directory already exists. */
+    recursive?: boolean;
+}
+
+/**
+ * Options for `storage.rm()`.
+ */
+export interface StorageRmOptions extends CallOptions {
+    /** Whether to remove directories and their contents. */
+    recursive?: boolean;
+    /** Whether to succeed silently if the path does not exist. */
+    force?: boolean;
+}
+
+/**
+ * Options for `storage.readFile()`.
+ */
+export interface StorageReadFileOptions extends CallOptions {
+    /** Decodes the content into a string with this encoding. Without it, a Buffer is returned. */
+    encoding?: BufferEncoding | null;
+}
+
+/**
+ * Options for `storage.writeFile()`.
+ */
+export interface StorageWriteFileOptions extends CallOptions {
+    /** Encoding of string data. Defaults to "utf8". */
+    encoding?: BufferEncoding;
+    /** Whether to create missing parent directories. */
+    recursive?: boolean;
+}
+
+/**
+ * What to do when a copied file already exists at the destination.
+ * - `always`: replace it.
+ * - `never`: keep it and skip the file.
+ * - `newer`: replace it only if the source was modified more recently.
+ * - `error`: fail the file.
+ */
+export type StorageOverwritePolicy = "always" | "never" | "newer" | "error";
+
+/**
+ * Options for `storage.copy()`, `storage.move()` and `Storage.transfer()`.
+ */
+export interface StorageCopyOptions extends CallOptions {
+    /** What to do when a file already exists at the destination. Defaults to "error". */
+    overwrite?: StorageOverwritePolicy;
+    /** Whether to check each copied file's size and checksum against the source. Defaults to true. */
+    verify?: boolean;
+    /** Maximum number of files copied at once. Defaults to 4. */
+    concurrency?: number;
+    /** Called as bytes are copied, with totals across every file. */
+    onProgress?: (progress: TransferProgress) => void;
+    /** Called whenever a file or directory is copied, skipped or fails. */
+    onItem?: (item: StorageCopyItem) => void;
+}
+
+/**
+ * Outcome of copying a single file or directory.
+ */
+export interface StorageCopyItem {
+    /** The source path. */
+    source: string;
+    /** The destination path. */
+    destination: string;
+    /** Whether the item is a directory. */
+    isDirectory: boolean;
+    /** Size of the file in bytes. */
+    size?: number;
+    /** Whether the item was copied (or created, for directories), skipped because it exists, or failed. */
+    status: "copied" | "skipped" | "failed";
+    /** Why the item failed. */
+    error?: Error;
+}
+
+/**
+ * Summary of a copy, move or transfer.
+ */
+export interface StorageCopyReport {
+    /** Every file and directory, parents before children. */
+    items: StorageCopyItem[];
+    /** Number of files copied. */
+    copied: number;
+    /** Number of files skipped because they exist at the destination. */
+    skipped: number;
+    /** Number of files and directories that failed. */
+    failed: number;
+    /** Total bytes copied. */
+    bytes: number;
+    /** How long the operation took in milliseconds. */
+    duration: number;
+}
+
+/**
+ * Options for `storage.verify()`.
+ */
+export interface StorageVerifyFileOptions extends CallOptions {
+    /** A local copy to check against the stored checksum instead of downloading the file. */
+    local?: string;
+}
+
+/**
+ * Options for `storage.verifyTree()`.
+ */
+export interface StorageVerifyTreeOptions extends StorageWalkOptions {
+    /** A local directory whose copies are checked against the stored checksums instead of downloading the files. */
+    local?: string;
+    /** Called as each file is checked. */
+    onItem?: (result: StorageVerifyResult) => void;
+}
+
+/**
+ * Outcome of checking a stored file against its checksum.
+ */
+export interface StorageVerifyResult {
+    /** The storage path of the file. */
+    path: string;
+    /**
+     * `ok` if the content matches, `mismatch` if its size or checksum differs,
+     * or `failed` if it could not be checked (e.g., the download failed or the local copy is missing).
+     */
+    status: "ok" | "mismatch" | "failed";
+    /** The stored size in bytes. */
+    size: number;
+    /** The algorithm of the stored checksum, or undefined if it is not recognized and only the size was compared. */
+    algorithm?: ChecksumAlgorithm;
+    /** The stored checksum. */
+    expected?: string;
+    /** The checksum computed from the content. */
+    actual?: string;
+    /** Why the check did not pass. */
+    error?: Error;
+}
+
+/**
+ * Summary of `storage.verifyTree()`.
+ */
+export interface StorageVerifyReport {
+    /** Every file checked, sorted by path. */
+    items: StorageVerifyResult[];
+    /** Number of files whose content matches. */
+    ok: number;
+    /** Number of files whose size or checksum differs. */
+    mismatched: number;
+    /** Number of files that could not be checked. */
+    failed: number;
+    /** Total bytes hashed. */
+    bytes: number;
+    /** How long the check took in milliseconds. */
+    duration: number;
+}
+
+/**
+ * Options for `storage.watch()`.
+ */
+export interface StorageWatchOptions extends CallOptions {
+    /** How often to list the directory, in milliseconds. Defaults to 5000. */
+    interval?: number;
+    /** Whether to watch subdirectories too. Defaults to false. */
+    recursive?: boolean;
+    /** Entries to ignore. Excluded directories are not descended into. */
+    exclude?: StoragePathFilter;
+    /**
+     * Path of a JSON file where the last snapshot is kept. When it exists, the first scan reports the changes
+     * made since the snapshot was saved, instead of taking a silent baseline.
+     */
+    state?: string;
+}
+
+/**
+ * A change detected by `storage.watch()`.
+ */
+export interface StorageChange {
+    /**
+     * What happened to the entry. A file is reported as renamed when a removed file and an added file
+     * have the same size and checksum.
+     */
+    type: "added" | "modified" | "removed" | "renamed";
+    /** Full path of the entry. For removed entries, the path it had. */
+    path: string;
+    /** The previous path of a renamed entry. */
+    oldPath?: string;
+    /** The entry as it is now, unless it was removed. */
+    entry?: StorageEntry;
+}